@@ -0,0 +1,439 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The status write goes through supabase.from('bookings').update(...).eq(...).eq(...).select().maybeSingle()
+const db = vi.hoisted(() => ({
+  result: { data: null as Record<string, any> | null, error: null as { message: string } | null },
+  updates: [] as Record<string, any>[]
+}));
+
+vi.mock('../supabase', () => {
+  const query: Record<string, any> = {
+    update: (values: Record<string, any>) => {
+      db.updates.push(values);
+      return query;
+    },
+    eq: () => query,
+    select: () => query,
+    maybeSingle: async () => db.result
+  };
+
+  return { supabase: { from: () => query } };
+});
+
+vi.mock('../payments', async importOriginal => ({
+  ...(await importOriginal<typeof import('../payments')>()),
+  placeBookingHold: vi.fn(),
+  releaseBookingHold: vi.fn(),
+  settleBookingPayment: vi.fn()
+}));
+
+vi.mock('../cancellation', () => ({ cancelBooking: vi.fn() }));
+vi.mock('../quotes', () => ({ hasApprovedQuote: vi.fn() }));
+vi.mock('../invoices', () => ({ issueBookingInvoice: vi.fn() }));
+vi.mock('../notifications', () => ({ createNotification: vi.fn() }));
+vi.mock('../booking-events', () => ({ recordBookingChanges: vi.fn() }));
+
+import {
+  BOOKING_STATUSES,
+  BookingState,
+  getAllowedTransitions,
+  transitionBooking,
+  validateTransition
+} from '../booking-state-machine';
+import { placeBookingHold, releaseBookingHold, settleBookingPayment } from '../payments';
+import { cancelBooking } from '../cancellation';
+import { hasApprovedQuote } from '../quotes';
+import { issueBookingInvoice } from '../invoices';
+import { createNotification } from '../notifications';
+import { BookingActor, BookingActorRole, recordBookingChanges } from '../booking-events';
+
+const CUSTOMER: BookingActor = { id: 'customer-1', role: 'customer' };
+const MECHANIC: BookingActor = { id: 'mechanic-1', role: 'mechanic' };
+const ADMIN: BookingActor = { id: 'admin-1', role: 'admin' };
+const SYSTEM: BookingActor = { id: null, role: 'system' };
+
+const ROLES: BookingActorRole[] = ['customer', 'mechanic', 'admin', 'system'];
+
+function makeBooking(overrides: Partial<BookingState> = {}): BookingState {
+  return {
+    id: 'booking-1',
+    customer_id: CUSTOMER.id as string,
+    mechanic_id: MECHANIC.id as string,
+    organization_id: null,
+    status: 'pending',
+    scheduled_time: '2030-01-01T10:00:00.000Z',
+    notes: null,
+    total_amount: null,
+    estimated_price: 50,
+    ...overrides
+  };
+}
+
+function notifiedUsers(): string[] {
+  return vi.mocked(createNotification).mock.calls.map(([notification]) => notification.userId);
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.updates = [];
+  db.result = { data: null, error: null };
+});
+
+describe('getAllowedTransitions', () => {
+  // Every status change the state machine allows, by current status and role
+  const expected: Record<string, Record<BookingActorRole, string[]>> = {
+    pending: {
+      customer: ['cancelled'],
+      mechanic: ['confirmed', 'cancelled'],
+      admin: ['cancelled'],
+      system: ['cancelled']
+    },
+    confirmed: {
+      customer: ['cancelled'],
+      mechanic: ['in_progress', 'cancelled'],
+      admin: ['cancelled'],
+      system: ['cancelled']
+    },
+    in_progress: {
+      customer: [],
+      mechanic: ['completed', 'cancelled'],
+      admin: ['cancelled'],
+      system: ['cancelled']
+    },
+    completed: { customer: [], mechanic: [], admin: [], system: [] },
+    cancelled: { customer: [], mechanic: [], admin: [], system: [] }
+  };
+
+  for (const status of BOOKING_STATUSES) {
+    for (const role of ROLES) {
+      it(`lets a ${role} move a ${status} booking to [${expected[status][role].join(', ')}]`, () => {
+        expect(getAllowedTransitions(status, role)).toEqual(expected[status][role]);
+      });
+    }
+  }
+
+  it('allows nothing from an unknown status', () => {
+    expect(getAllowedTransitions('archived', 'mechanic')).toEqual([]);
+  });
+});
+
+describe('validateTransition', () => {
+  it('rejects a change that is not a transition at all', async () => {
+    expect(await validateTransition(makeBooking({ status: 'completed' }), 'pending', 'mechanic')).toEqual({
+      status: 400,
+      message: 'Invalid status transition from completed to pending'
+    });
+  });
+
+  it('rejects moving a booking to an unknown status', async () => {
+    expect((await validateTransition(makeBooking(), 'archived', 'mechanic'))?.status).toBe(400);
+  });
+
+  it.each([
+    ['pending', 'confirmed', 'customer'],
+    ['confirmed', 'in_progress', 'customer'],
+    ['in_progress', 'completed', 'customer'],
+    ['pending', 'confirmed', 'admin'],
+    ['confirmed', 'in_progress', 'system']
+  ])('only lets the mechanic move a %s booking to %s, not a %s', async (from, to, role) => {
+    expect(await validateTransition(makeBooking({ status: from }), to, role as BookingActorRole)).toEqual({
+      status: 403,
+      message: `Only the mechanic can move a ${from} booking to ${to}`
+    });
+  });
+
+  it('does not let the customer cancel once work is in progress', async () => {
+    expect(await validateTransition(makeBooking({ status: 'in_progress' }), 'cancelled', 'customer')).toEqual({
+      status: 403,
+      message: 'Only the mechanic can move a in_progress booking to cancelled'
+    });
+  });
+
+  it('requires an approved quote before work starts', async () => {
+    vi.mocked(hasApprovedQuote).mockResolvedValue(false);
+
+    expect(await validateTransition(makeBooking({ status: 'confirmed' }), 'in_progress', 'mechanic')).toEqual({
+      status: 400,
+      message: 'The customer must approve a quote before work can start'
+    });
+    expect(hasApprovedQuote).toHaveBeenCalledWith('booking-1');
+  });
+
+  it('lets work start once a quote is approved', async () => {
+    vi.mocked(hasApprovedQuote).mockResolvedValue(true);
+
+    expect(await validateTransition(makeBooking({ status: 'confirmed' }), 'in_progress', 'mechanic')).toBeNull();
+  });
+
+  it.each([null, 0])('requires an amount to charge before completing (total_amount %s)', async totalAmount => {
+    expect(await validateTransition(
+      makeBooking({ status: 'in_progress', total_amount: totalAmount }), 'completed', 'mechanic'
+    )).toEqual({ status: 400, message: 'The booking has no approved amount to charge' });
+  });
+
+  it('lets a booking with an approved amount be completed', async () => {
+    expect(await validateTransition(
+      makeBooking({ status: 'in_progress', total_amount: 120 }), 'completed', 'mechanic'
+    )).toBeNull();
+  });
+
+  it('does not run guards for a transition the role may not make', async () => {
+    await validateTransition(makeBooking({ status: 'confirmed' }), 'in_progress', 'customer');
+
+    expect(hasApprovedQuote).not.toHaveBeenCalled();
+  });
+});
+
+describe('transitionBooking', () => {
+  describe('pending -> confirmed', () => {
+    it('holds the estimated cost, writes the status and notifies the customer', async () => {
+      const booking = makeBooking();
+      db.result = { data: { ...booking, status: 'confirmed' }, error: null };
+
+      const { data, error } = await transitionBooking(booking, 'confirmed', MECHANIC);
+
+      expect(error).toBeNull();
+      expect(data?.booking.status).toBe('confirmed');
+      expect(placeBookingHold).toHaveBeenCalledWith(booking);
+      expect(db.updates[0]).toMatchObject({ status: 'confirmed' });
+      expect(recordBookingChanges).toHaveBeenCalledWith(
+        'booking-1', MECHANIC, booking, data?.booking, undefined
+      );
+      expect(notifiedUsers()).toEqual(['customer-1']);
+      expect(vi.mocked(createNotification).mock.calls[0][0]).toMatchObject({
+        type: 'booking_confirmed',
+        title: 'Booking Confirmed',
+        relatedId: 'booking-1'
+      });
+    });
+
+    it('refuses to confirm when the customer cannot cover the hold', async () => {
+      vi.mocked(placeBookingHold).mockRejectedValue(new Error('Insufficient funds: available balance 0'));
+
+      const { data, error } = await transitionBooking(makeBooking(), 'confirmed', MECHANIC);
+
+      expect(data).toBeNull();
+      expect(error).toEqual({ status: 400, message: 'Customer has insufficient funds to cover this booking' });
+      expect(db.updates).toHaveLength(0);
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it('names the organization when a fleet booking cannot be covered', async () => {
+      vi.mocked(placeBookingHold).mockRejectedValue(new Error('Insufficient funds'));
+
+      const { error } = await transitionBooking(makeBooking({ organization_id: 'org-1' }), 'confirmed', MECHANIC);
+
+      expect(error).toEqual({ status: 400, message: 'Organization has insufficient funds to cover this booking' });
+    });
+
+    it('passes on other hold errors', async () => {
+      vi.mocked(placeBookingHold).mockRejectedValue(new Error('connection reset'));
+
+      await expect(transitionBooking(makeBooking(), 'confirmed', MECHANIC)).rejects.toThrow('connection reset');
+    });
+
+    it('releases the hold when the booking changed in the meantime', async () => {
+      db.result = { data: null, error: null };
+
+      const { data, error } = await transitionBooking(makeBooking(), 'confirmed', MECHANIC);
+
+      expect(data).toBeNull();
+      expect(error?.status).toBe(409);
+      expect(releaseBookingHold).toHaveBeenCalledWith('booking-1');
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it('releases the hold and rethrows when the status cannot be written', async () => {
+      const writeError = { message: 'write failed' };
+      db.result = { data: null, error: writeError };
+
+      await expect(transitionBooking(makeBooking(), 'confirmed', MECHANIC)).rejects.toBe(writeError);
+      expect(releaseBookingHold).toHaveBeenCalledWith('booking-1');
+    });
+
+    it('does not hold funds for a transition the actor may not make', async () => {
+      const { error } = await transitionBooking(makeBooking(), 'confirmed', CUSTOMER);
+
+      expect(error?.status).toBe(403);
+      expect(placeBookingHold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmed -> in_progress', () => {
+    it('starts work once a quote is approved', async () => {
+      vi.mocked(hasApprovedQuote).mockResolvedValue(true);
+      const booking = makeBooking({ status: 'confirmed' });
+      db.result = { data: { ...booking, status: 'in_progress' }, error: null };
+
+      const { data, error } = await transitionBooking(booking, 'in_progress', MECHANIC);
+
+      expect(error).toBeNull();
+      expect(data?.booking.status).toBe('in_progress');
+      expect(placeBookingHold).not.toHaveBeenCalled();
+      expect(notifiedUsers()).toEqual(['customer-1']);
+    });
+
+    it('does not start without an approved quote', async () => {
+      vi.mocked(hasApprovedQuote).mockResolvedValue(false);
+
+      const { error } = await transitionBooking(makeBooking({ status: 'confirmed' }), 'in_progress', MECHANIC);
+
+      expect(error?.status).toBe(400);
+      expect(db.updates).toHaveLength(0);
+    });
+  });
+
+  describe('in_progress -> completed', () => {
+    it('invoices the work and settles the payment', async () => {
+      const booking = makeBooking({ status: 'in_progress', total_amount: 120 });
+      db.result = { data: { ...booking, status: 'completed' }, error: null };
+      vi.mocked(issueBookingInvoice).mockResolvedValue({ invoice_number: 'INV-0001' } as any);
+      vi.mocked(settleBookingPayment).mockResolvedValue({ status: 'paid' } as any);
+
+      const { data, error } = await transitionBooking(booking, 'completed', MECHANIC);
+
+      expect(error).toBeNull();
+      expect(issueBookingInvoice).toHaveBeenCalledWith('booking-1');
+      expect(settleBookingPayment).toHaveBeenCalledWith(expect.objectContaining({ id: 'booking-1', status: 'completed' }));
+      expect(data).toMatchObject({ payment_status: 'paid', invoice_number: 'INV-0001' });
+    });
+
+    it('still settles the payment when the invoice cannot be issued', async () => {
+      const booking = makeBooking({ status: 'in_progress', total_amount: 120 });
+      db.result = { data: { ...booking, status: 'completed' }, error: null };
+      vi.mocked(issueBookingInvoice).mockRejectedValue(new Error('invoice failed'));
+      vi.mocked(settleBookingPayment).mockResolvedValue({ status: 'payment_pending' } as any);
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const { data } = await transitionBooking(booking, 'completed', MECHANIC);
+
+      expect(settleBookingPayment).toHaveBeenCalled();
+      expect(data).toMatchObject({ payment_status: 'payment_pending', invoice_number: null });
+    });
+
+    it('leaves the payment pending when the settlement fails', async () => {
+      const booking = makeBooking({ status: 'in_progress', total_amount: 120 });
+      db.result = { data: { ...booking, status: 'completed' }, error: null };
+      vi.mocked(issueBookingInvoice).mockResolvedValue({ invoice_number: 'INV-0001' } as any);
+      vi.mocked(settleBookingPayment).mockRejectedValue({ message: 'connection reset' });
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const { data, error } = await transitionBooking(booking, 'completed', MECHANIC);
+
+      expect(error).toBeNull();
+      expect(data).toMatchObject({ payment_status: 'payment_pending', invoice_number: 'INV-0001' });
+    });
+
+    it('does not settle when the booking changed in the meantime', async () => {
+      db.result = { data: null, error: null };
+
+      const { error } = await transitionBooking(
+        makeBooking({ status: 'in_progress', total_amount: 120 }), 'completed', MECHANIC
+      );
+
+      expect(error?.status).toBe(409);
+      expect(settleBookingPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('-> cancelled', () => {
+    const cancellation = {
+      policy: 'Standard',
+      hours_before_scheduled_time: 2,
+      within_free_window: false,
+      customer_fee: 10,
+      mechanic_penalty: 0,
+      no_show_party: null
+    };
+
+    it.each([
+      ['pending', CUSTOMER, ['mechanic-1']],
+      ['pending', MECHANIC, ['customer-1']],
+      ['pending', ADMIN, ['customer-1', 'mechanic-1']],
+      ['pending', SYSTEM, ['customer-1', 'mechanic-1']],
+      ['confirmed', CUSTOMER, ['mechanic-1']],
+      ['confirmed', MECHANIC, ['customer-1']],
+      ['confirmed', ADMIN, ['customer-1', 'mechanic-1']],
+      ['confirmed', SYSTEM, ['customer-1', 'mechanic-1']],
+      ['in_progress', MECHANIC, ['customer-1']],
+      ['in_progress', ADMIN, ['customer-1', 'mechanic-1']],
+      ['in_progress', SYSTEM, ['customer-1', 'mechanic-1']]
+    ] as [string, BookingActor, string[]][])(
+      'cancels a %s booking through the cancellation policy for the %o',
+      async (status, actor, recipients) => {
+        const booking = makeBooking({ status });
+        vi.mocked(cancelBooking).mockResolvedValue({
+          booking: { ...booking, status: 'cancelled' },
+          cancellation,
+          payment_status: 'paid'
+        });
+
+        const { data, error } = await transitionBooking(booking, 'cancelled', actor, { reason: 'Car sold' });
+
+        expect(error).toBeNull();
+        expect(cancelBooking).toHaveBeenCalledWith(booking, {
+          cancelledBy: actor.role,
+          reason: 'Car sold',
+          noShow: undefined,
+          updates: undefined
+        });
+        expect(db.updates).toHaveLength(0);
+        expect(data?.cancellation).toEqual(cancellation);
+        expect(recordBookingChanges).toHaveBeenCalledWith(
+          'booking-1', actor, booking, data?.booking, { cancellation_reason: 'Car sold' }
+        );
+        expect(notifiedUsers()).toEqual(recipients);
+      }
+    );
+
+    it('says who cancelled in the notification', async () => {
+      const booking = makeBooking();
+      vi.mocked(cancelBooking).mockResolvedValue({ booking, cancellation, payment_status: 'paid' });
+
+      await transitionBooking(booking, 'cancelled', SYSTEM);
+      await transitionBooking(booking, 'cancelled', MECHANIC, { reason: 'Parts unavailable' });
+
+      const messages = vi.mocked(createNotification).mock.calls.map(([notification]) => notification.message);
+      expect(messages[0]).toBe('Your booking has been cancelled automatically.');
+      expect(messages[2]).toBe('Your booking has been cancelled by the mechanic: Parts unavailable');
+    });
+
+    it('passes a confirmed no-show on to the cancellation policy', async () => {
+      const booking = makeBooking({ status: 'confirmed' });
+      vi.mocked(cancelBooking).mockResolvedValue({ booking, cancellation, payment_status: 'paid' });
+
+      await transitionBooking(booking, 'cancelled', ADMIN, { reason: 'The mechanic did not show up', noShow: 'mechanic' });
+
+      expect(cancelBooking).toHaveBeenCalledWith(booking, {
+        cancelledBy: 'admin',
+        reason: 'The mechanic did not show up',
+        noShow: 'mechanic',
+        updates: undefined
+      });
+    });
+
+    it('reports a conflict when the booking changed in the meantime', async () => {
+      vi.mocked(cancelBooking).mockResolvedValue(null);
+
+      const { data, error } = await transitionBooking(makeBooking(), 'cancelled', CUSTOMER);
+
+      expect(data).toBeNull();
+      expect(error?.status).toBe(409);
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it('does not let the customer cancel work in progress', async () => {
+      const { error } = await transitionBooking(makeBooking({ status: 'in_progress' }), 'cancelled', CUSTOMER);
+
+      expect(error?.status).toBe(403);
+      expect(cancelBooking).not.toHaveBeenCalled();
+    });
+
+    it.each(['completed', 'cancelled'])('cannot cancel a %s booking', async status => {
+      const { error } = await transitionBooking(makeBooking({ status }), 'cancelled', ADMIN);
+
+      expect(error?.status).toBe(400);
+      expect(cancelBooking).not.toHaveBeenCalled();
+    });
+  });
+});
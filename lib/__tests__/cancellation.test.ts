@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  policy: null as Record<string, any> | null,
+  updates: [] as Record<string, any>[],
+  rpcCalls: [] as { fn: string; args: Record<string, any> }[],
+  rpcErrors: {} as Record<string, { message: string }>
+}));
+
+vi.mock('../supabase', () => {
+  const from = (table: string) => {
+    const query: Record<string, any> = {
+      select: () => query,
+      eq: () => query,
+      limit: () => query,
+      update: (values: Record<string, any>) => {
+        db.updates.push(values);
+        return query;
+      },
+      // The mechanic's assigned policy
+      single: async () => ({ data: { cancellation_policy: db.policy }, error: null }),
+      // The cancelled booking, or no default policy row
+      maybeSingle: async () => table === 'bookings'
+        ? { data: { id: 'booking-1', payment_status: 'unpaid', ...db.updates[db.updates.length - 1] }, error: null }
+        : { data: null, error: null }
+    };
+
+    return query;
+  };
+
+  const rpc = async (fn: string, args: Record<string, any>) => {
+    db.rpcCalls.push({ fn, args });
+    return { data: null, error: db.rpcErrors[fn] ?? null };
+  };
+
+  return { supabase: { from, rpc } };
+});
+
+vi.mock('../notifications', () => ({ createNotification: vi.fn() }));
+
+vi.mock('../payments', async importOriginal => ({
+  ...(await importOriginal<typeof import('../payments')>()),
+  releaseBookingHold: vi.fn()
+}));
+
+import { CancellationPolicy, cancelBooking, evaluateCancellation } from '../cancellation';
+import { releaseBookingHold } from '../payments';
+import { createNotification } from '../notifications';
+
+const POLICY: CancellationPolicy = {
+  id: 'policy-1',
+  name: 'Standard',
+  free_window_hours: 24,
+  late_fee_percent: 20,
+  mechanic_penalty_percent: 10
+};
+
+const NOW = new Date('2030-01-02T12:00:00.000Z');
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.policy = POLICY;
+  db.updates = [];
+  db.rpcCalls = [];
+  db.rpcErrors = {};
+});
+
+describe('evaluateCancellation', () => {
+  const early = { scheduled_time: '2030-01-05T12:00:00.000Z', amount: 200 };
+  const late = { scheduled_time: '2030-01-02T14:00:00.000Z', amount: 200 };
+  const missed = { scheduled_time: '2030-01-02T10:00:00.000Z', amount: 200 };
+
+  it('is free inside the free window', () => {
+    expect(evaluateCancellation(POLICY, early, 'customer', NOW)).toMatchObject({
+      within_free_window: true,
+      customer_fee: 0,
+      mechanic_penalty: 0,
+      no_show_party: null
+    });
+    expect(evaluateCancellation(POLICY, early, 'mechanic', NOW).mechanic_penalty).toBe(0);
+  });
+
+  it('charges whoever cancels late', () => {
+    expect(evaluateCancellation(POLICY, late, 'customer', NOW)).toMatchObject({ customer_fee: 40, mechanic_penalty: 0 });
+    expect(evaluateCancellation(POLICY, late, 'mechanic', NOW)).toMatchObject({ customer_fee: 0, mechanic_penalty: 20 });
+  });
+
+  it('does not charge anyone when an admin or the system cancels', () => {
+    expect(evaluateCancellation(POLICY, late, 'admin', NOW)).toMatchObject({ customer_fee: 0, mechanic_penalty: 0 });
+    expect(evaluateCancellation(POLICY, late, 'system', NOW)).toMatchObject({ customer_fee: 0, mechanic_penalty: 0 });
+  });
+
+  it('charges the mechanic penalty for a mechanic no-show', () => {
+    expect(evaluateCancellation(POLICY, { ...missed, no_show_party: 'mechanic' }, 'admin', NOW)).toMatchObject({
+      customer_fee: 0,
+      mechanic_penalty: 20,
+      no_show_party: 'mechanic'
+    });
+  });
+
+  it('charges the late fee for a customer no-show', () => {
+    expect(evaluateCancellation(POLICY, { ...missed, no_show_party: 'customer' }, 'admin', NOW)).toMatchObject({
+      customer_fee: 40,
+      mechanic_penalty: 0,
+      no_show_party: 'customer'
+    });
+  });
+
+  it('charges a no-show whatever the free window', () => {
+    expect(evaluateCancellation(POLICY, { ...early, no_show_party: 'mechanic' }, 'admin', NOW).mechanic_penalty).toBe(20);
+  });
+});
+
+describe('cancelBooking', () => {
+  const booking = {
+    id: 'booking-1',
+    mechanic_id: 'mechanic-1',
+    status: 'confirmed',
+    scheduled_time: '2020-01-01T10:00:00.000Z',
+    total_amount: 150
+  };
+
+  it('records a mechanic no-show and charges the penalty through the wallets', async () => {
+    const result = await cancelBooking(booking, {
+      cancelledBy: 'admin',
+      reason: 'The mechanic did not show up',
+      noShow: 'mechanic'
+    });
+
+    expect(db.updates[0]).toMatchObject({
+      status: 'cancelled',
+      cancelled_by: 'admin',
+      cancellation_reason: 'The mechanic did not show up',
+      cancellation_fee: 0,
+      mechanic_penalty: 15,
+      no_show_party: 'mechanic'
+    });
+    expect(db.rpcCalls).toEqual([
+      { fn: 'charge_cancellation_fees', args: { p_booking_id: 'booking-1' } },
+      { fn: 'charge_mechanic_penalty', args: { p_booking_id: 'booking-1' } }
+    ]);
+    expect(result?.payment_status).toBe('paid');
+    expect(result?.cancellation).toMatchObject({ mechanic_penalty: 15, no_show_party: 'mechanic' });
+  });
+
+  it('leaves the penalty owed without holding up the customer when the mechanic cannot cover it', async () => {
+    db.rpcErrors.charge_mechanic_penalty = { message: 'Insufficient funds: available balance 0' };
+
+    const result = await cancelBooking(booking, { cancelledBy: 'admin', noShow: 'mechanic' });
+
+    expect(result?.payment_status).toBe('paid');
+    expect(db.updates).toHaveLength(1);
+    expect(vi.mocked(createNotification).mock.calls[0][0]).toMatchObject({
+      userId: 'mechanic-1',
+      type: 'penalty_pending'
+    });
+  });
+
+  it('leaves the booking payment_pending when the customer cannot cover a no-show fee', async () => {
+    db.rpcErrors.charge_cancellation_fees = { message: 'Insufficient funds: available balance 0' };
+
+    const result = await cancelBooking(booking, { cancelledBy: 'admin', noShow: 'customer' });
+
+    expect(result?.payment_status).toBe('payment_pending');
+    expect(releaseBookingHold).toHaveBeenCalledWith('booking-1');
+    expect(db.updates[1]).toMatchObject({ payment_status: 'payment_pending' });
+    expect(db.rpcCalls.map(call => call.fn)).toEqual(['charge_cancellation_fees']);
+  });
+
+  it('only releases the hold when an admin cancels without a no-show', async () => {
+    const result = await cancelBooking(booking, { cancelledBy: 'admin' });
+
+    expect(db.updates[0]).toMatchObject({ cancellation_fee: 0, mechanic_penalty: 0, no_show_party: null });
+    expect(db.rpcCalls).toHaveLength(0);
+    expect(releaseBookingHold).toHaveBeenCalledWith('booking-1');
+    expect(result?.payment_status).toBe('unpaid');
+  });
+});
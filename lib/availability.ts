@@ -0,0 +1,349 @@
+import { supabase } from './supabase';
+
+// Granularity of bookable slots, and the length of a booking without a catalog service
+export const SLOT_DURATION_MINUTES = 60;
+
+// Longest a single booking can take; bounds how far back we look for overlapping bookings
+export const MAX_BOOKING_DURATION_MINUTES = 480;
+
+// How many days ahead we look when suggesting alternative slots
+const SUGGESTION_WINDOW_DAYS = 7;
+
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface TimeRange {
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
+
+/**
+ * Shape of mechanics.availability_hours, e.g.
+ * { "monday": [{ "start": "09:00", "end": "12:00" }, { "start": "13:00", "end": "17:00" }] }
+ * Times are interpreted in UTC.
+ */
+export type AvailabilityHours = Partial<Record<Weekday, TimeRange[]>>;
+
+export interface Slot {
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validates and normalises an availability_hours value
+ * @param value - Raw JSONB value from the database or a request body
+ * @returns The parsed schedule, or null if the value is malformed
+ */
+export function parseAvailabilityHours(value: unknown): AvailabilityHours | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const result: AvailabilityHours = {};
+
+  for (const [day, ranges] of Object.entries(value as Record<string, unknown>)) {
+    const weekday = day.toLowerCase() as Weekday;
+
+    if (!WEEKDAYS.includes(weekday)) {
+      return null;
+    }
+
+    // Accept a single range as shorthand for a one-element list
+    const list = Array.isArray(ranges) ? ranges : [ranges];
+    const parsed: TimeRange[] = [];
+
+    for (const range of list) {
+      if (!range || typeof range !== 'object') {
+        return null;
+      }
+
+      const { start, end } = range as Record<string, unknown>;
+
+      if (typeof start !== 'string' || typeof end !== 'string' ||
+          !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) ||
+          toMinutes(start) >= toMinutes(end)) {
+        return null;
+      }
+
+      parsed.push({ start, end });
+    }
+
+    result[weekday] = parsed;
+  }
+
+  return result;
+}
+
+/**
+ * Checks that a string is a calendar date in YYYY-MM-DD format
+ */
+export function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && !isNaN(Date.parse(`${date}T00:00:00Z`));
+}
+
+/**
+ * Expands the working hours of a single day into slots
+ * Slots start every SLOT_DURATION_MINUTES and last as long as the booking would.
+ * @param hours - Parsed availability schedule
+ * @param date - Calendar date in YYYY-MM-DD format
+ * @param durationMinutes - Length of the booking to fit
+ * @returns All slots for that day, booked or not
+ */
+export function getDaySlots(
+  hours: AvailabilityHours,
+  date: string,
+  durationMinutes = SLOT_DURATION_MINUTES
+): Slot[] {
+  const dayStart = Date.parse(`${date}T00:00:00Z`);
+  const weekday = WEEKDAYS[new Date(dayStart).getUTCDay()];
+  const slots: Slot[] = [];
+
+  for (const range of hours[weekday] ?? []) {
+    const rangeEnd = toMinutes(range.end);
+
+    for (
+      let minute = toMinutes(range.start);
+      minute + durationMinutes <= rangeEnd;
+      minute += SLOT_DURATION_MINUTES
+    ) {
+      slots.push({
+        start: new Date(dayStart + minute * 60000).toISOString(),
+        end: new Date(dayStart + (minute + durationMinutes) * 60000).toISOString()
+      });
+    }
+  }
+
+  return slots.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Checks whether a booking starting at the given time fits inside the mechanic's working hours
+ */
+export function isWithinAvailability(
+  hours: AvailabilityHours,
+  start: Date,
+  durationMinutes = SLOT_DURATION_MINUTES
+): boolean {
+  const weekday = WEEKDAYS[start.getUTCDay()];
+  const startMinute = start.getUTCHours() * 60 + start.getUTCMinutes();
+
+  return (hours[weekday] ?? []).some(range =>
+    startMinute >= toMinutes(range.start) &&
+    startMinute + durationMinutes <= toMinutes(range.end)
+  );
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Fetches the time intervals occupied by a mechanic's non-cancelled bookings
+ * @param mechanicId - The mechanic to check
+ * @param from - Start of the window
+ * @param to - End of the window
+ * @param excludeBookingId - Booking to ignore (e.g. the one being rescheduled)
+ */
+async function getBookedIntervals(
+  mechanicId: string,
+  from: Date,
+  to: Date,
+  excludeBookingId?: string
+): Promise<Interval[]> {
+  let query = supabase
+    .from('bookings')
+    .select('id, scheduled_time, duration_minutes')
+    .eq('mechanic_id', mechanicId)
+    .neq('status', 'cancelled')
+    .gt('scheduled_time', new Date(from.getTime() - MAX_BOOKING_DURATION_MINUTES * 60000).toISOString())
+    .lt('scheduled_time', to.toISOString());
+
+  if (excludeBookingId) {
+    query = query.neq('id', excludeBookingId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(booking => {
+    const start = new Date(booking.scheduled_time).getTime();
+    const duration = (booking.duration_minutes ?? SLOT_DURATION_MINUTES) * 60000;
+    return { start, end: start + duration };
+  });
+}
+
+/**
+ * Lists the free, future slots of a mechanic for a given day
+ * @param mechanicId - The mechanic to check
+ * @param hours - Parsed availability schedule of the mechanic
+ * @param date - Calendar date in YYYY-MM-DD format
+ * @param durationMinutes - Length of the booking to fit
+ */
+export async function getAvailableSlots(
+  mechanicId: string,
+  hours: AvailabilityHours,
+  date: string,
+  durationMinutes = SLOT_DURATION_MINUTES
+): Promise<Slot[]> {
+  const slots = getDaySlots(hours, date, durationMinutes);
+
+  if (slots.length === 0) {
+    return [];
+  }
+
+  const booked = await getBookedIntervals(
+    mechanicId,
+    new Date(slots[0].start),
+    new Date(slots[slots.length - 1].end)
+  );
+  const now = Date.now();
+
+  return slots.filter(slot => {
+    const interval = { start: Date.parse(slot.start), end: Date.parse(slot.end) };
+    return interval.start > now && !booked.some(b => overlaps(b, interval));
+  });
+}
+
+/**
+ * Checks whether a booking at the given time would overlap another booking of the mechanic
+ * @param mechanicId - The mechanic to check
+ * @param start - Requested start time
+ * @param durationMinutes - Length of the requested booking
+ * @param excludeBookingId - Booking to ignore (e.g. the one being rescheduled)
+ */
+export async function hasBookingConflict(
+  mechanicId: string,
+  start: Date,
+  durationMinutes = SLOT_DURATION_MINUTES,
+  excludeBookingId?: string
+): Promise<boolean> {
+  const interval = {
+    start: start.getTime(),
+    end: start.getTime() + durationMinutes * 60000
+  };
+
+  const booked = await getBookedIntervals(
+    mechanicId,
+    new Date(interval.start),
+    new Date(interval.end),
+    excludeBookingId
+  );
+
+  return booked.some(b => overlaps(b, interval));
+}
+
+/**
+ * Checks whether a database error comes from the constraint that keeps a mechanic's bookings from overlapping
+ * It catches concurrent requests that both passed hasBookingConflict.
+ */
+export function isBookingOverlapError(error: { code?: string }): boolean {
+  return error.code === '23P01'; // exclusion_violation on bookings_no_overlap
+}
+
+/**
+ * Suggests the free slots closest to a requested time
+ * @param mechanicId - The mechanic to check
+ * @param hours - Parsed availability schedule of the mechanic
+ * @param around - The time the customer originally asked for
+ * @param durationMinutes - Length of the booking to fit
+ * @param count - Maximum number of suggestions
+ * @returns Free slots ordered chronologically
+ */
+export async function findNearestFreeSlots(
+  mechanicId: string,
+  hours: AvailabilityHours,
+  around: Date,
+  durationMinutes = SLOT_DURATION_MINUTES,
+  count = 5
+): Promise<Slot[]> {
+  const firstDay = Date.UTC(around.getUTCFullYear(), around.getUTCMonth(), around.getUTCDate());
+  const candidates: Slot[] = [];
+
+  for (let day = 0; day < SUGGESTION_WINDOW_DAYS; day++) {
+    const date = new Date(firstDay + day * 86400000).toISOString().slice(0, 10);
+    candidates.push(...getDaySlots(hours, date, durationMinutes));
+  }
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const booked = await getBookedIntervals(
+    mechanicId,
+    new Date(candidates[0].start),
+    new Date(candidates[candidates.length - 1].end)
+  );
+  const now = Date.now();
+  const target = around.getTime();
+
+  return candidates
+    .filter(slot => {
+      const interval = { start: Date.parse(slot.start), end: Date.parse(slot.end) };
+      return interval.start > now && !booked.some(b => overlaps(b, interval));
+    })
+    .sort((a, b) => Math.abs(Date.parse(a.start) - target) - Math.abs(Date.parse(b.start) - target))
+    .slice(0, count)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+export interface SlotCheck {
+  available: boolean;
+  reason?: 'outside_working_hours' | 'conflict';
+  available_slots: Slot[]; // Nearby free slots when the requested one is not available
+}
+
+/**
+ * Checks whether a mechanic can take a booking at the given time
+ * Working hours are only enforced for mechanics who have set them.
+ * @param mechanicId - The mechanic to check
+ * @param hours - Parsed availability schedule of the mechanic, or null if unset
+ * @param start - Requested start time
+ * @param durationMinutes - Length of the requested booking
+ * @param excludeBookingId - Booking to ignore (e.g. the one being rescheduled)
+ */
+export async function checkSlot(
+  mechanicId: string,
+  hours: AvailabilityHours | null,
+  start: Date,
+  durationMinutes = SLOT_DURATION_MINUTES,
+  excludeBookingId?: string
+): Promise<SlotCheck> {
+  const suggest = async () => hours
+    ? (await findNearestFreeSlots(mechanicId, hours, start, durationMinutes))
+    : [];
+
+  if (hours && !isWithinAvailability(hours, start, durationMinutes)) {
+    return { available: false, reason: 'outside_working_hours', available_slots: await suggest() };
+  }
+
+  if (await hasBookingConflict(mechanicId, start, durationMinutes, excludeBookingId)) {
+    return { available: false, reason: 'conflict', available_slots: await suggest() };
+  }
+
+  return { available: true, available_slots: [] };
+}
@@ -0,0 +1,108 @@
+import { supabase } from './supabase';
+import { v4 as uuidv4 } from 'uuid';
+
+export type BookingActorRole = 'customer' | 'mechanic' | 'admin' | 'system';
+
+export interface BookingActor {
+  id: string | null; // null for the system
+  role: BookingActorRole;
+}
+
+export type BookingEventType =
+  | 'created'
+  | 'status_changed'
+  | 'notes_updated'
+  | 'amount_changed'
+  | 'rescheduled'
+  | 'no_show_flagged';
+
+export const SYSTEM_ACTOR: BookingActor = { id: null, role: 'system' };
+
+// Booking fields whose changes are recorded, and the event each change produces
+const TRACKED_FIELDS: Record<string, BookingEventType> = {
+  status: 'status_changed',
+  notes: 'notes_updated',
+  total_amount: 'amount_changed',
+  scheduled_time: 'rescheduled'
+};
+
+/**
+ * Records a single event in the audit trail of a booking
+ * Failures are logged rather than thrown so they never abort the calling operation
+ * @param bookingId - The booking the event belongs to
+ * @param actor - Who caused the event
+ * @param eventType - What happened
+ * @param details - Old and new values, and any extra context
+ */
+export async function recordBookingEvent(
+  bookingId: string,
+  actor: BookingActor,
+  eventType: BookingEventType,
+  details: { field?: string; oldValue?: unknown; newValue?: unknown; metadata?: Record<string, unknown> } = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('booking_events')
+    .insert({
+      id: uuidv4(),
+      booking_id: bookingId,
+      actor_id: actor.id,
+      actor_role: actor.role,
+      event_type: eventType,
+      field: details.field ?? null,
+      old_value: details.oldValue ?? null,
+      new_value: details.newValue ?? null,
+      metadata: details.metadata ?? null,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error recording booking event:', error);
+  }
+}
+
+function normalise(field: string, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  // Timestamps and amounts come back from the database in different formats than they were sent
+  if (field === 'scheduled_time') {
+    return new Date(value as string).toISOString();
+  }
+
+  if (field === 'total_amount') {
+    return Number(value);
+  }
+
+  return value;
+}
+
+/**
+ * Records an event for each tracked field that differs between two versions of a booking
+ * @param bookingId - The booking that changed
+ * @param actor - Who made the change
+ * @param before - The booking before the change
+ * @param after - The booking after the change
+ * @param metadata - Extra context stored with every event, e.g. a cancellation reason
+ */
+export async function recordBookingChanges(
+  bookingId: string,
+  actor: BookingActor,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  for (const [field, eventType] of Object.entries(TRACKED_FIELDS)) {
+    // A field missing from either row was not read, so whether it changed is unknown
+    if (!(field in before) || !(field in after)) {
+      continue;
+    }
+
+    const oldValue = normalise(field, before[field]);
+    const newValue = normalise(field, after[field]);
+
+    if (oldValue !== newValue) {
+      await recordBookingEvent(bookingId, actor, eventType, { field, oldValue, newValue, metadata });
+    }
+  }
+}
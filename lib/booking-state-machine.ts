@@ -0,0 +1,324 @@
+import { supabase } from './supabase';
+import { cancelBooking, CancellationOutcome, NoShowParty } from './cancellation';
+import {
+  isInsufficientFundsError,
+  placeBookingHold,
+  releaseBookingHold,
+  settleBookingPayment
+} from './payments';
+import { hasApprovedQuote } from './quotes';
+import { issueBookingInvoice } from './invoices';
+import { createNotification } from './notifications';
+import { BookingActor, BookingActorRole, recordBookingChanges } from './booking-events';
+
+export type BookingStatus = 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
+
+export const BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'in_progress', 'completed', 'cancelled'];
+
+// Statuses in which a booking has not started, so its time and quote can still change
+export const SCHEDULABLE_STATUSES: BookingStatus[] = ['pending', 'confirmed'];
+
+// Columns of a booking the state machine needs
+export const BOOKING_STATE_COLUMNS =
+  'id, customer_id, mechanic_id, organization_id, status, scheduled_time, notes, total_amount, estimated_price';
+
+export interface BookingState {
+  id: string;
+  customer_id: string;
+  mechanic_id: string;
+  organization_id?: string | null;
+  status: string;
+  scheduled_time: string;
+  notes?: string | null;
+  total_amount?: number | null;
+  estimated_price?: number | null;
+}
+
+export interface TransitionOptions {
+  reason?: string | null; // Cancellation reason
+  noShow?: NoShowParty | null; // Who missed the booking, when cancelling a confirmed no-show
+  updates?: Record<string, unknown>; // Other booking fields changed along with the status
+}
+
+export interface TransitionResult {
+  booking: Record<string, any>;
+  cancellation?: CancellationOutcome;
+  payment_status?: string;
+  invoice_number?: string | null;
+}
+
+export interface TransitionError {
+  status: 400 | 403 | 409;
+  message: string;
+}
+
+interface Transition {
+  from: BookingStatus[];
+  to: BookingStatus;
+  roles: BookingActorRole[];
+  // Returns an error message when the transition must not happen
+  guard?: (booking: BookingState) => Promise<string | null>;
+  // Runs before the status is written; returns an error message to abort
+  before?: (booking: BookingState) => Promise<string | null>;
+  // Undoes `before` if the status could not be written
+  rollback?: (booking: BookingState) => Promise<void>;
+  // Runs once the status is written
+  after?: (booking: BookingState) => Promise<Partial<TransitionResult>>;
+  notification: { title: string; message: (actor: BookingActor, options: TransitionOptions) => string };
+}
+
+/**
+ * Every allowed status change
+ * Customers cannot cancel once work is in progress; the mechanic or an admin can.
+ */
+const TRANSITIONS: Transition[] = [
+  {
+    from: ['pending'],
+    to: 'confirmed',
+    roles: ['mechanic'],
+    // Reserve the estimated cost in the payer's wallet before confirming
+    before: async booking => {
+      try {
+        await placeBookingHold(booking);
+        return null;
+      } catch (holdError: unknown) {
+        if (isInsufficientFundsError(holdError)) {
+          return booking.organization_id
+            ? 'Organization has insufficient funds to cover this booking'
+            : 'Customer has insufficient funds to cover this booking';
+        }
+
+        throw holdError;
+      }
+    },
+    rollback: async booking => {
+      await releaseBookingHold(booking.id);
+    },
+    notification: {
+      title: 'Booking Confirmed',
+      message: () => 'Your booking has been confirmed by the mechanic.'
+    }
+  },
+  {
+    from: ['confirmed'],
+    to: 'in_progress',
+    roles: ['mechanic'],
+    guard: async booking => (await hasApprovedQuote(booking.id))
+      ? null
+      : 'The customer must approve a quote before work can start',
+    notification: {
+      title: 'Repair Started',
+      message: () => 'Work on your vehicle has begun.'
+    }
+  },
+  {
+    from: ['in_progress'],
+    to: 'completed',
+    roles: ['mechanic'],
+    guard: async booking => Number(booking.total_amount) > 0
+      ? null
+      : 'The booking has no approved amount to charge',
+    // Invoice the work, then charge the customer and pay the mechanic
+    after: async booking => {
+      // A failed invoice is issued later, on first request of GET /api/bookings/[id]/invoice
+      const invoice = await issueBookingInvoice(booking.id).catch(invoiceError => {
+        console.error('Error issuing invoice:', invoiceError);
+        return null;
+      });
+      // The booking is already completed; a failed settlement is left payment_pending for a retry
+      const paymentStatus = await settleBookingPayment(booking)
+        .then(payment => payment.status)
+        .catch(settlementError => {
+          console.error('Error settling booking payment:', settlementError);
+          return 'payment_pending';
+        });
+
+      return { payment_status: paymentStatus, invoice_number: invoice?.invoice_number ?? null };
+    },
+    notification: {
+      title: 'Repair Completed',
+      message: () => 'Your vehicle repair has been completed.'
+    }
+  },
+  {
+    from: ['pending', 'confirmed'],
+    to: 'cancelled',
+    roles: ['customer', 'mechanic', 'admin', 'system'],
+    notification: {
+      title: 'Booking Cancelled',
+      message: cancellationMessage
+    }
+  },
+  {
+    from: ['in_progress'],
+    to: 'cancelled',
+    roles: ['mechanic', 'admin', 'system'],
+    notification: {
+      title: 'Booking Cancelled',
+      message: cancellationMessage
+    }
+  }
+];
+
+function cancellationMessage(actor: BookingActor, options: TransitionOptions): string {
+  const by = actor.role === 'system' ? 'automatically' : `by the ${actor.role}`;
+  return `Your booking has been cancelled ${by}${options.reason ? `: ${options.reason}` : '.'}`;
+}
+
+function findTransition(from: string, to: string, role: BookingActorRole): Transition | undefined {
+  return TRANSITIONS.find(t => t.to === to && t.from.includes(from as BookingStatus) && t.roles.includes(role));
+}
+
+/**
+ * Lists the statuses an actor may move a booking to from its current status
+ * Guards are not evaluated, so a listed transition can still be refused.
+ * @param status - Current status of the booking
+ * @param role - Role of the actor
+ */
+export function getAllowedTransitions(status: string, role: BookingActorRole): BookingStatus[] {
+  return BOOKING_STATUSES.filter(to => findTransition(status, to, role));
+}
+
+/**
+ * Checks whether a status change is allowed for an actor, without performing it
+ * @param booking - The booking to change
+ * @param to - Requested status
+ * @param role - Role of the actor
+ * @returns An error describing why the change is refused, or null if it is allowed
+ */
+export async function validateTransition(
+  booking: BookingState,
+  to: string,
+  role: BookingActorRole
+): Promise<TransitionError | null> {
+  const candidates = TRANSITIONS.filter(t => t.to === to && t.from.includes(booking.status as BookingStatus));
+
+  if (candidates.length === 0) {
+    return { status: 400, message: `Invalid status transition from ${booking.status} to ${to}` };
+  }
+
+  const transition = candidates.find(t => t.roles.includes(role));
+
+  if (!transition) {
+    const allowedRoles = Array.from(new Set(candidates.flatMap(t => t.roles)))
+      .filter(r => r !== 'system' && r !== 'admin');
+
+    return {
+      status: 403,
+      message: allowedRoles.length > 0
+        ? `Only the ${allowedRoles.join(' or ')} can move a ${booking.status} booking to ${to}`
+        : `A ${role} cannot move a ${booking.status} booking to ${to}`
+    };
+  }
+
+  const guardError = transition.guard ? await transition.guard(booking) : null;
+
+  return guardError ? { status: 400, message: guardError } : null;
+}
+
+/**
+ * Moves a booking to a new status
+ * Validates the transition for the actor, runs its guards and wallet side effects,
+ * records the change in the booking's audit trail and notifies the other party
+ * (or both parties when an admin or the system acted).
+ * @param booking - The booking as currently stored
+ * @param to - Requested status
+ * @param actor - Who is making the change
+ * @param options - Cancellation reason, no-show party and other fields to update
+ */
+export async function transitionBooking(
+  booking: BookingState,
+  to: string,
+  actor: BookingActor,
+  options: TransitionOptions = {}
+): Promise<{ data: TransitionResult | null; error: TransitionError | null }> {
+  const validationError = await validateTransition(booking, to, actor.role);
+
+  if (validationError) {
+    return { data: null, error: validationError };
+  }
+
+  const transition = findTransition(booking.status, to, actor.role) as Transition;
+  const staleError: TransitionError = {
+    status: 409,
+    message: 'The booking was changed by someone else; reload it and try again'
+  };
+
+  const beforeError = transition.before ? await transition.before(booking) : null;
+
+  if (beforeError) {
+    return { data: null, error: { status: 400, message: beforeError } };
+  }
+
+  let result: TransitionResult;
+
+  if (to === 'cancelled') {
+    // Cancellations go through the cancellation policy, which also settles fees and holds
+    const cancelled = await cancelBooking(booking, {
+      cancelledBy: actor.role,
+      reason: options.reason,
+      noShow: options.noShow,
+      updates: options.updates
+    });
+
+    if (!cancelled) {
+      return { data: null, error: staleError };
+    }
+
+    result = { booking: cancelled.booking, cancellation: cancelled.cancellation };
+  } else {
+    // Only write if nobody changed the status since it was read
+    const { data: updated, error } = await supabase
+      .from('bookings')
+      .update({ ...options.updates, status: to, updated_at: new Date().toISOString() })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .select()
+      .maybeSingle();
+
+    if (error || !updated) {
+      if (transition.rollback) {
+        await transition.rollback(booking);
+      }
+
+      if (error) {
+        throw error;
+      }
+
+      return { data: null, error: staleError };
+    }
+
+    result = { booking: updated };
+  }
+
+  await recordBookingChanges(
+    booking.id,
+    actor,
+    booking,
+    result.booking,
+    options.reason ? { cancellation_reason: options.reason } : undefined
+  );
+
+  // Notify the other party, or both when neither of them acted
+  const recipients = actor.role === 'customer'
+    ? [booking.mechanic_id]
+    : actor.role === 'mechanic'
+      ? [booking.customer_id]
+      : [booking.customer_id, booking.mechanic_id];
+
+  for (const userId of recipients) {
+    await createNotification({
+      userId,
+      type: `booking_${to}`,
+      title: transition.notification.title,
+      message: transition.notification.message(actor, options),
+      relatedId: booking.id
+    });
+  }
+
+  if (transition.after) {
+    result = { ...result, ...(await transition.after({ ...booking, ...result.booking })) };
+  }
+
+  return { data: result, error: null };
+}
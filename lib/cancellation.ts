@@ -0,0 +1,256 @@
+import { supabase } from './supabase';
+import { estimateBookingAmount, isInsufficientFundsError, releaseBookingHold } from './payments';
+import { createNotification } from './notifications';
+
+export type CancelledBy = 'customer' | 'mechanic' | 'admin' | 'system';
+
+// The party found to have missed a booking flagged as a no-show
+export type NoShowParty = 'customer' | 'mechanic';
+
+export const NO_SHOW_PARTIES: NoShowParty[] = ['customer', 'mechanic'];
+
+export interface CancellationPolicy {
+  id: string | null;
+  name: string;
+  free_window_hours: number; // Cancelling at least this long before scheduled_time is free
+  late_fee_percent: number; // Charged to a customer who cancels inside the window or does not show up
+  mechanic_penalty_percent: number; // Paid by a mechanic who cancels inside the window or does not show up
+}
+
+export interface CancellationOutcome {
+  policy: string;
+  hours_before_scheduled_time: number;
+  within_free_window: boolean;
+  customer_fee: number;
+  mechanic_penalty: number;
+  no_show_party: NoShowParty | null;
+}
+
+// Used when no policy is configured in the database
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  id: null,
+  name: 'Standard',
+  free_window_hours: 24,
+  late_fee_percent: 20,
+  mechanic_penalty_percent: 10
+};
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Computes the fees a cancellation incurs under a policy
+ * A no-show is charged in full whatever the time: the late fee to a customer who
+ * did not show up, the mechanic penalty to a mechanic who did not.
+ * @param policy - The policy that applies to the booking
+ * @param booking - Scheduled time and estimated amount of the booking, and who did not show up if anyone
+ * @param cancelledBy - Who is cancelling
+ * @param now - Time of the cancellation
+ */
+export function evaluateCancellation(
+  policy: CancellationPolicy,
+  booking: { scheduled_time: string; amount: number; no_show_party?: NoShowParty | null },
+  cancelledBy: CancelledBy,
+  now: Date = new Date()
+): CancellationOutcome {
+  const hoursBefore = (Date.parse(booking.scheduled_time) - now.getTime()) / 3600000;
+  const withinFreeWindow = hoursBefore >= policy.free_window_hours;
+
+  let customerFee = 0;
+  let mechanicPenalty = 0;
+
+  const noShowParty = booking.no_show_party ?? null;
+
+  if (noShowParty === 'customer' || (!noShowParty && !withinFreeWindow && cancelledBy === 'customer')) {
+    customerFee = roundAmount(booking.amount * policy.late_fee_percent / 100);
+  }
+
+  if (noShowParty === 'mechanic' || (!noShowParty && !withinFreeWindow && cancelledBy === 'mechanic')) {
+    mechanicPenalty = roundAmount(booking.amount * policy.mechanic_penalty_percent / 100);
+  }
+
+  return {
+    policy: policy.name,
+    hours_before_scheduled_time: Math.round(hoursBefore * 10) / 10,
+    within_free_window: withinFreeWindow,
+    customer_fee: customerFee,
+    mechanic_penalty: mechanicPenalty,
+    no_show_party: noShowParty
+  };
+}
+
+/**
+ * Looks up the cancellation policy for a mechanic's bookings
+ * Falls back to the default policy row, then to DEFAULT_CANCELLATION_POLICY.
+ * @param mechanicId - The mechanic the booking is with
+ */
+export async function getCancellationPolicy(mechanicId: string): Promise<CancellationPolicy> {
+  const { data: mechanic } = await supabase
+    .from('mechanics')
+    .select('cancellation_policy:cancellation_policy_id (id, name, free_window_hours, late_fee_percent, mechanic_penalty_percent)')
+    .eq('id', mechanicId)
+    .single();
+
+  const assigned = mechanic?.cancellation_policy as unknown as CancellationPolicy | null;
+
+  if (assigned) {
+    return assigned;
+  }
+
+  const { data: fallback } = await supabase
+    .from('cancellation_policies')
+    .select('id, name, free_window_hours, late_fee_percent, mechanic_penalty_percent')
+    .eq('is_default', true)
+    .limit(1)
+    .maybeSingle();
+
+  return fallback ?? DEFAULT_CANCELLATION_POLICY;
+}
+
+/**
+ * Cancels a booking, applying the cancellation policy
+ * Records who cancelled and why, charges any fee through the wallets and releases
+ * the customer's hold. If the customer's fee cannot be collected the booking is left in
+ * payment_pending so it can be settled later; a mechanic penalty that cannot be
+ * collected stays owed by the mechanic without holding up the customer's side.
+ * @param booking - The booking being cancelled, with the status it was read with
+ * @param options - Who is cancelling, their reason, who did not show up and any other fields to update
+ * @returns The updated booking, the policy outcome and the payment status, or null
+ * if the booking's status changed in the meantime
+ */
+export async function cancelBooking(
+  booking: {
+    id: string;
+    mechanic_id: string;
+    status: string;
+    scheduled_time: string;
+    total_amount?: number | null;
+    estimated_price?: number | null;
+  },
+  options: {
+    cancelledBy: CancelledBy;
+    reason?: string | null;
+    noShow?: NoShowParty | null;
+    updates?: Record<string, unknown>;
+  }
+): Promise<{ booking: Record<string, any>; cancellation: CancellationOutcome; payment_status: string } | null> {
+  const policy = await getCancellationPolicy(booking.mechanic_id);
+  const amount = await estimateBookingAmount(booking);
+  const cancellation = evaluateCancellation(
+    policy,
+    { scheduled_time: booking.scheduled_time, amount, no_show_party: options.noShow },
+    options.cancelledBy
+  );
+  const hasFees = cancellation.customer_fee > 0 || cancellation.mechanic_penalty > 0;
+
+  const { data, error } = await supabase
+    .from('bookings')
+    .update({
+      ...options.updates,
+      status: 'cancelled',
+      cancelled_by: options.cancelledBy,
+      cancellation_reason: options.reason ?? null,
+      cancelled_at: new Date().toISOString(),
+      cancellation_fee: cancellation.customer_fee,
+      mechanic_penalty: cancellation.mechanic_penalty,
+      no_show_party: cancellation.no_show_party,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', booking.id)
+    .eq('status', booking.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  if (!hasFees) {
+    await releaseBookingHold(booking.id);
+    return { booking: data, cancellation, payment_status: data.payment_status };
+  }
+
+  const paymentStatus = await chargeCancellationFees(booking.id);
+
+  if (cancellation.mechanic_penalty > 0) {
+    await chargeMechanicPenalty({ ...booking, mechanic_penalty: cancellation.mechanic_penalty });
+  }
+
+  return { booking: { ...data, payment_status: paymentStatus }, cancellation, payment_status: paymentStatus };
+}
+
+/**
+ * Collects the customer's cancellation fee recorded on a cancelled booking
+ * @param bookingId - The cancelled booking
+ * @returns 'paid', or 'payment_pending' if the customer's wallet could not cover the fee
+ */
+export async function chargeCancellationFees(bookingId: string): Promise<'paid' | 'payment_pending'> {
+  const { error } = await supabase.rpc('charge_cancellation_fees', {
+    p_booking_id: bookingId
+  });
+
+  if (!error) {
+    return 'paid';
+  }
+
+  if (!isInsufficientFundsError(error)) {
+    throw error;
+  }
+
+  // The fee could not be taken, but the hold must not outlive the booking
+  await releaseBookingHold(bookingId);
+
+  const { error: updateError } = await supabase
+    .from('bookings')
+    .update({
+      payment_status: 'payment_pending',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', bookingId);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return 'payment_pending';
+}
+
+/**
+ * Collects the mechanic penalty recorded on a cancelled booking
+ * If the mechanic's wallet cannot cover it, the penalty stays owed and the mechanic
+ * is asked to settle it through POST /api/bookings/[id]/pay.
+ * @param booking - The cancelled booking and the penalty recorded on it
+ * @returns Whether the penalty was collected
+ */
+export async function chargeMechanicPenalty(booking: {
+  id: string;
+  mechanic_id: string;
+  mechanic_penalty: number;
+}): Promise<boolean> {
+  const { error } = await supabase.rpc('charge_mechanic_penalty', {
+    p_booking_id: booking.id
+  });
+
+  if (!error) {
+    return true;
+  }
+
+  if (!isInsufficientFundsError(error)) {
+    throw error;
+  }
+
+  await createNotification({
+    userId: booking.mechanic_id,
+    type: 'penalty_pending',
+    title: 'Penalty Owed',
+    message: `We could not charge your wallet the cancellation penalty of ${booking.mechanic_penalty}. Please top up your wallet to settle it.`,
+    relatedId: booking.id
+  });
+
+  return false;
+}
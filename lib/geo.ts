@@ -0,0 +1,46 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Search radius used when a geo search does not specify one
+export const DEFAULT_SEARCH_RADIUS_KM = 25;
+
+// Upper bound on the search radius to keep geo queries cheap
+export const MAX_SEARCH_RADIUS_KM = 500;
+
+/**
+ * Checks that a latitude/longitude pair is within valid WGS84 bounds
+ */
+export function isValidCoordinates(latitude: unknown, longitude: unknown): boolean {
+  return typeof latitude === 'number' && typeof longitude === 'number' &&
+    isFinite(latitude) && isFinite(longitude) &&
+    latitude >= -90 && latitude <= 90 &&
+    longitude >= -180 && longitude <= 180;
+}
+
+/**
+ * Parses coordinates from query parameters
+ * @param latitude - Raw latitude value
+ * @param longitude - Raw longitude value
+ * @returns The coordinates, or null if either value is missing or out of range
+ */
+export function parseCoordinates(latitude: unknown, longitude: unknown): Coordinates | null {
+  if (typeof latitude !== 'string' || typeof longitude !== 'string' ||
+      latitude.trim() === '' || longitude.trim() === '') {
+    return null;
+  }
+
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+
+  return isValidCoordinates(lat, lng) ? { latitude: lat, longitude: lng } : null;
+}
+
+/**
+ * Parses the legacy "latitude,longitude" string format
+ */
+export function parseLocationString(location: string): Coordinates | null {
+  const [latitude, longitude] = location.split(',');
+  return parseCoordinates(latitude, longitude);
+}
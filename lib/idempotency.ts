@@ -0,0 +1,131 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createHash } from 'crypto';
+import { supabase } from './supabase';
+
+type ApiHandler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serialises a value with object keys in a fixed order so equal bodies hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Fingerprints a request so a reused key can be matched against the original request
+ */
+function hashRequest(req: NextApiRequest): string {
+  return createHash('sha256')
+    .update(`${req.method} ${req.url}\n${stableStringify(req.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Middleware to make mutations safe to retry with an Idempotency-Key header
+ * The first response for a key is stored and replayed for repeats with the same
+ * request; reusing a key for a different request is rejected with 422.
+ * Must be wrapped by withAuth, as keys are scoped per user.
+ * @param handler - The API route handler
+ * @param methods - HTTP methods the header is honoured for
+ * @returns A wrapped handler that deduplicates retried requests
+ */
+export function withIdempotency(handler: ApiHandler, methods: string[] = ['POST', 'PATCH']) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const key = req.headers['idempotency-key'];
+
+    if (!methods.includes(req.method as string) || typeof key !== 'string' || !key) {
+      return handler(req, res);
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+    }
+
+    const requestHash = hashRequest(req);
+
+    // Claim the key; the primary key on (user_id, key) makes this atomic
+    const { error: claimError } = await supabase
+      .from('idempotency_keys')
+      .insert({
+        user_id: req.userId,
+        key,
+        request_hash: requestHash,
+        created_at: new Date().toISOString()
+      });
+
+    if (claimError) {
+      if (claimError.code !== '23505') {
+        console.error('Error claiming idempotency key:', claimError);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+
+      const { data: existing, error: existingError } = await supabase
+        .from('idempotency_keys')
+        .select('request_hash, response_status, response_body')
+        .eq('user_id', req.userId)
+        .eq('key', key)
+        .single();
+
+      if (existingError || !existing) {
+        console.error('Error fetching idempotency key:', existingError);
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+
+      if (existing.request_hash !== requestHash) {
+        return res.status(422).json({ error: 'Idempotency-Key has already been used for a different request' });
+      }
+
+      if (existing.response_status === null) {
+        return res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+      }
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(existing.response_status).json(existing.response_body);
+    }
+
+    // Capture the response body so it can be replayed later
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    try {
+      await handler(req, res);
+    } finally {
+      // Server errors are not stored so the client can retry with the same key
+      const { error } = res.statusCode >= 500 || responseBody === undefined
+        ? await supabase
+            .from('idempotency_keys')
+            .delete()
+            .eq('user_id', req.userId)
+            .eq('key', key)
+        : await supabase
+            .from('idempotency_keys')
+            .update({
+              response_status: res.statusCode,
+              response_body: responseBody
+            })
+            .eq('user_id', req.userId)
+            .eq('key', key);
+
+      if (error) {
+        console.error('Error saving idempotency key:', error);
+      }
+    }
+  };
+}
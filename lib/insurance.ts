@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+export const COVERAGE_TYPES = ['liability', 'third_party_fire_theft', 'collision', 'comprehensive'] as const;
+
+// Days before expiry at which the owner is alerted, closest to expiry first
+export const INSURANCE_ALERT_DAYS = [7, 30];
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a date in YYYY-MM-DD format')
+  .refine(value => {
+    // Rejects dates like 2025-02-30, which Date rolls over into the next month
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'must be a valid date');
+
+const insuranceInfoSchema = z
+  .object({
+    provider: z.string().trim().min(1, 'cannot be empty'),
+    policy_number: z.string().trim().min(1, 'cannot be empty'),
+    coverage_type: z.enum(COVERAGE_TYPES),
+    start_date: isoDate,
+    expiry_date: isoDate,
+    document_reference: z.string().trim().min(1).nullable().optional() // Storage path of the uploaded policy document
+  })
+  .strict()
+  .refine(info => info.expiry_date > info.start_date, {
+    message: 'must be after start_date',
+    path: ['expiry_date']
+  });
+
+export type InsuranceInfo = z.infer<typeof insuranceInfoSchema>;
+
+/**
+ * Validates the insurance details of a vehicle
+ * @param value - insurance_info from a request body
+ * @returns The details to store, and an error message if they are malformed
+ */
+export function parseInsuranceInfo(value: unknown): { data: InsuranceInfo | null; error: string | null } {
+  const result = insuranceInfoSchema.safeParse(value);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = ['insurance_info', ...issue.path].join('.');
+
+    return { data: null, error: `${field}: ${issue.message}` };
+  }
+
+  return { data: result.data, error: null };
+}
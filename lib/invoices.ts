@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { PdfLine, renderPdf } from './pdf';
+
+export interface InvoiceLineItem {
+  item_type: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  booking_id: string;
+  quote_id: string | null;
+  customer_id: string;
+  mechanic_id: string;
+  customer_name: string | null;
+  mechanic_name: string | null;
+  vehicle_description: string | null;
+  service_type: string;
+  line_items: InvoiceLineItem[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  issued_at: string;
+}
+
+/**
+ * Issues the invoice of a completed booking
+ * Safe to call more than once: an already issued invoice is returned unchanged.
+ * @param bookingId - The completed booking
+ * @throws The database error if the booking is not completed or has nothing to invoice
+ */
+export async function issueBookingInvoice(bookingId: string): Promise<Invoice> {
+  const { data, error } = await supabase.rpc('issue_booking_invoice', {
+    p_booking_id: bookingId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Invoice;
+}
+
+/**
+ * Fetches the invoice of a booking
+ * @param bookingId - The booking to look up
+ * @returns The invoice, or null if none has been issued
+ */
+export async function getBookingInvoice(bookingId: string): Promise<Invoice | null> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Invoice | null;
+}
+
+function formatMoney(amount: number): string {
+  return Number(amount).toFixed(2);
+}
+
+/**
+ * Lays out an invoice as a printable PDF
+ * @param invoice - The issued invoice
+ * @returns The PDF file contents
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const row = (description: string, quantity: string, unitPrice: string, amount: string) =>
+    `${description.slice(0, 40).padEnd(40)} ${quantity.padStart(8)} ${unitPrice.padStart(10)} ${amount.padStart(12)}`;
+
+  const lines: PdfLine[] = [
+    { text: `Invoice ${invoice.invoice_number}`, bold: true, size: 18 },
+    { text: '' },
+    { text: `Issued:    ${invoice.issued_at.slice(0, 10)}` },
+    { text: `Booking:   ${invoice.booking_id}` },
+    { text: `Customer:  ${invoice.customer_name ?? invoice.customer_id}` },
+    { text: `Mechanic:  ${invoice.mechanic_name ?? invoice.mechanic_id}` },
+    { text: `Vehicle:   ${invoice.vehicle_description ?? ''}` },
+    { text: `Service:   ${invoice.service_type}` },
+    { text: '' },
+    { text: row('Description', 'Qty', 'Unit', 'Amount'), bold: true },
+    { text: '-'.repeat(73) }
+  ];
+
+  for (const item of invoice.line_items) {
+    lines.push({
+      text: row(
+        `${item.description} (${item.item_type})`,
+        String(Number(item.quantity)),
+        formatMoney(item.unit_price),
+        formatMoney(item.amount)
+      )
+    });
+  }
+
+  lines.push(
+    { text: '-'.repeat(73) },
+    { text: row('Subtotal', '', '', formatMoney(invoice.subtotal)) },
+    { text: row(`Tax (${Number(invoice.tax_rate)}%)`, '', '', formatMoney(invoice.tax_amount)) },
+    { text: row('Total', '', '', formatMoney(invoice.total)), bold: true }
+  );
+
+  return renderPdf(lines);
+}
@@ -0,0 +1,144 @@
+import { supabase } from './supabase';
+import { getVehicleHistory, VehicleHistoryEntry } from './vehicle-history';
+
+// How close to its due point a service is reported as due soon
+export const MAINTENANCE_DUE_SOON_KM = Number(process.env.MAINTENANCE_DUE_SOON_KM ?? 1000);
+export const MAINTENANCE_DUE_SOON_DAYS = Number(process.env.MAINTENANCE_DUE_SOON_DAYS ?? 30);
+
+export type MaintenanceStatus = 'ok' | 'due_soon' | 'overdue';
+
+export interface MaintenanceSchedule {
+  service_type: string; // Catalog code of the service
+  service_name: string;
+  interval_km: number | null;
+  interval_months: number | null;
+}
+
+export interface MaintenanceItem extends MaintenanceSchedule {
+  status: MaintenanceStatus;
+  last_service_date: string | null; // null when the service was never recorded
+  last_service_mileage: number | null;
+  due_mileage: number | null;
+  due_date: string | null;
+  km_remaining: number | null; // Negative when overdue
+  days_remaining: number | null;
+}
+
+interface MaintenanceVehicle {
+  year: number;
+  mileage: number | null;
+}
+
+const DAY_MS = 86400000;
+
+const STATUS_ORDER: Record<MaintenanceStatus, number> = { overdue: 0, due_soon: 1, ok: 2 };
+
+/**
+ * Fetches the active maintenance schedules of catalog services
+ */
+export async function getMaintenanceSchedules(): Promise<MaintenanceSchedule[]> {
+  const { data, error } = await supabase
+    .from('maintenance_schedules')
+    .select('interval_km, interval_months, services!inner (code, name)')
+    .eq('is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((schedule: any) => ({
+    service_type: schedule.services.code,
+    service_name: schedule.services.name,
+    interval_km: schedule.interval_km,
+    interval_months: schedule.interval_months
+  }));
+}
+
+function addMonths(date: string, months: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result.toISOString().slice(0, 10);
+}
+
+function matchesService(entry: VehicleHistoryEntry, schedule: MaintenanceSchedule): boolean {
+  const type = entry.service_type.trim().toLowerCase();
+  return type === schedule.service_type || type === schedule.service_name.toLowerCase();
+}
+
+/**
+ * Works out when each scheduled service is next due for a vehicle
+ * A service is due from its last recorded occurrence; one that was never recorded is
+ * counted from 0 km at the start of the vehicle's model year.
+ * @param vehicle - The vehicle's model year and current mileage
+ * @param history - The vehicle's service history
+ * @param schedules - Maintenance schedules to check
+ * @param now - Reference time
+ * @returns One item per schedule, most urgent first
+ */
+export function computeMaintenance(
+  vehicle: MaintenanceVehicle,
+  history: VehicleHistoryEntry[],
+  schedules: MaintenanceSchedule[],
+  now: Date = new Date()
+): MaintenanceItem[] {
+  const today = now.toISOString().slice(0, 10);
+
+  const items = schedules.map(schedule => {
+    // History is oldest first, so the last match is the latest service
+    const last = history.filter(entry => matchesService(entry, schedule)).pop();
+    const sinceDate = last?.date ?? `${vehicle.year}-01-01`;
+    // A service without a reading counts from the mileage of the service before it, or 0 km
+    const sinceMileage = last
+      ? last.mileage ?? history.filter(entry => entry.date <= last.date && entry.mileage !== null).pop()?.mileage ?? 0
+      : 0;
+
+    const dueMileage = schedule.interval_km !== null ? sinceMileage + schedule.interval_km : null;
+    const dueDate = schedule.interval_months !== null ? addMonths(sinceDate, schedule.interval_months) : null;
+    const kmRemaining = dueMileage !== null && vehicle.mileage !== null ? dueMileage - vehicle.mileage : null;
+    const daysRemaining = dueDate !== null
+      ? Math.round((new Date(`${dueDate}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime()) / DAY_MS)
+      : null;
+
+    let status: MaintenanceStatus = 'ok';
+
+    if ((kmRemaining !== null && kmRemaining <= 0) || (daysRemaining !== null && daysRemaining <= 0)) {
+      status = 'overdue';
+    } else if ((kmRemaining !== null && kmRemaining <= MAINTENANCE_DUE_SOON_KM) ||
+               (daysRemaining !== null && daysRemaining <= MAINTENANCE_DUE_SOON_DAYS)) {
+      status = 'due_soon';
+    }
+
+    return {
+      ...schedule,
+      status,
+      last_service_date: last?.date ?? null,
+      last_service_mileage: last ? sinceMileage : null,
+      due_mileage: dueMileage,
+      due_date: dueDate,
+      km_remaining: kmRemaining,
+      days_remaining: daysRemaining
+    };
+  });
+
+  return items.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    (a.days_remaining ?? Number.MAX_SAFE_INTEGER) - (b.days_remaining ?? Number.MAX_SAFE_INTEGER)
+  );
+}
+
+/**
+ * Works out the maintenance due for a vehicle from its service history
+ * @param vehicleId - The vehicle
+ * @param vehicle - The vehicle's model year and current mileage
+ * @param now - Reference time
+ */
+export async function getVehicleMaintenance(
+  vehicleId: string,
+  vehicle: MaintenanceVehicle,
+  now: Date = new Date()
+): Promise<MaintenanceItem[]> {
+  const history = await getVehicleHistory(vehicleId);
+  const schedules = await getMaintenanceSchedules();
+
+  return computeMaintenance(vehicle, history, schedules, now);
+}
@@ -0,0 +1,65 @@
+import { parseAvailabilityHours } from './availability';
+import { isValidCoordinates } from './geo';
+
+// Profile fields a mechanic manages themselves
+const EDITABLE_FIELDS = [
+  'name',
+  'profile_image',
+  'specialization',
+  'experience_years',
+  'hourly_rate',
+  'latitude',
+  'longitude',
+  'availability_hours'
+] as const;
+
+/**
+ * Validates the self-managed fields of a mechanic profile
+ * Only fields present in the body are validated and returned.
+ * @param body - Request body
+ * @returns The fields to write, and an error message if any field is invalid
+ */
+export function parseMechanicProfile(
+  body: Record<string, any>
+): { data: Record<string, unknown>; error: string | null } {
+  const data: Record<string, unknown> = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  }
+
+  if (data.name !== undefined && (typeof data.name !== 'string' || !data.name.trim())) {
+    return { data, error: 'name must be a non-empty string' };
+  }
+
+  if (data.experience_years !== undefined &&
+      (!Number.isInteger(data.experience_years) || (data.experience_years as number) < 0)) {
+    return { data, error: 'experience_years must be a non-negative integer' };
+  }
+
+  if (data.hourly_rate !== undefined &&
+      (typeof data.hourly_rate !== 'number' || data.hourly_rate <= 0)) {
+    return { data, error: 'hourly_rate must be a positive number' };
+  }
+
+  // Coordinates are only meaningful as a pair
+  if ((data.latitude !== undefined || data.longitude !== undefined) &&
+      !(data.latitude === null && data.longitude === null) &&
+      !isValidCoordinates(data.latitude, data.longitude)) {
+    return { data, error: 'latitude and longitude must be provided together as valid coordinates' };
+  }
+
+  if (data.availability_hours !== undefined && data.availability_hours !== null) {
+    const hours = parseAvailabilityHours(data.availability_hours);
+
+    if (!hours) {
+      return { data, error: 'availability_hours must map weekdays to lists of { start, end } times in HH:MM format' };
+    }
+
+    data.availability_hours = hours;
+  }
+
+  return { data, error: null };
+}
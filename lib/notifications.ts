@@ -0,0 +1,34 @@
+import { supabase } from './supabase';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface NotificationInput {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  relatedId?: string;
+}
+
+/**
+ * Creates an in-app notification for a user
+ * Failures are logged rather than thrown so they never abort the calling operation
+ * @param notification - Recipient and content of the notification
+ */
+export async function createNotification(notification: NotificationInput): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .insert({
+      id: uuidv4(),
+      user_id: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      related_id: notification.relatedId,
+      is_read: false,
+      created_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error('Error creating notification:', error);
+  }
+}
@@ -0,0 +1,317 @@
+import { supabase } from './supabase';
+
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'admin', 'member'];
+
+// Roles that manage the organization's members, vehicles and wallet
+export const ORGANIZATION_ADMIN_ROLES: OrganizationRole[] = ['owner', 'admin'];
+
+export interface OrganizationAccess {
+  organization: Record<string, any> | null;
+  role: OrganizationRole | null;
+  error: { status: 403 | 404; message: string } | null;
+}
+
+export interface StatementTotals {
+  bookings: number;
+  completed_bookings: number;
+  cancelled_bookings: number;
+  billed: number; // Total amount of completed bookings
+  cancellation_fees: number;
+  credits: number; // Top-ups, refunds and other money into the wallet
+  debits: number; // Payments and other money out of the wallet
+}
+
+export interface MonthlyStatement {
+  organization_id: string;
+  month: string; // YYYY-MM
+  period_start: string;
+  period_end: string; // Exclusive
+  opening_balance: number;
+  closing_balance: number;
+  totals: StatementTotals;
+  bookings: Record<string, any>[];
+  transactions: Record<string, any>[];
+}
+
+/**
+ * Looks up a user's role in an organization
+ * @param organizationId - The organization
+ * @param userId - The user
+ * @returns The role, or null if the user is not a member
+ */
+export async function getOrganizationRole(
+  organizationId: string,
+  userId: string
+): Promise<OrganizationRole | null> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.role as OrganizationRole | undefined) ?? null;
+}
+
+/**
+ * Lists the organizations a user belongs to and the user's role in each
+ * @param userId - The user
+ * @returns Role by organization ID
+ */
+export async function getOrganizationRoles(userId: string): Promise<Record<string, OrganizationRole>> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  const roles: Record<string, OrganizationRole> = {};
+
+  for (const membership of data ?? []) {
+    roles[membership.organization_id] = membership.role as OrganizationRole;
+  }
+
+  return roles;
+}
+
+/**
+ * Lists the members of an organization who have one of the given roles
+ * @param organizationId - The organization
+ * @param roles - Roles to include; owners and admins by default
+ * @returns Their user IDs
+ */
+export async function getOrganizationMemberIds(
+  organizationId: string,
+  roles: OrganizationRole[] = ORGANIZATION_ADMIN_ROLES
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('organization_id', organizationId)
+    .in('role', roles);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(member => member.user_id);
+}
+
+/**
+ * Fetches an organization and checks that a user has one of the given roles in it
+ * @param organizationId - The organization
+ * @param userId - The user
+ * @param roles - Roles allowed; any member by default
+ */
+export async function checkOrganizationAccess(
+  organizationId: string,
+  userId: string,
+  roles: OrganizationRole[] = ORGANIZATION_ROLES
+): Promise<OrganizationAccess> {
+  const { data: organization, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!organization) {
+    return { organization: null, role: null, error: { status: 404, message: 'Organization not found' } };
+  }
+
+  const role = await getOrganizationRole(organizationId, userId);
+
+  if (!role) {
+    return { organization: null, role: null, error: { status: 403, message: 'Not a member of this organization' } };
+  }
+
+  if (!roles.includes(role)) {
+    return {
+      organization,
+      role,
+      error: { status: 403, message: `Only organization ${roles.join(' or ')}s can do this` }
+    };
+  }
+
+  return { organization, role, error: null };
+}
+
+/**
+ * How a wallet transaction changes the balance; holds and releases only move held_balance
+ */
+function balanceEffect(transaction: { type: string; amount: number | string }): number {
+  if (transaction.type === 'credit' || transaction.type === 'refund') {
+    return Number(transaction.amount);
+  }
+
+  if (transaction.type === 'debit' || transaction.type === 'capture') {
+    return -Number(transaction.amount);
+  }
+
+  return 0;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Parses a statement month
+ * @param month - The month as YYYY-MM
+ * @returns The first instant of the month and of the next month, or null if invalid
+ */
+export function parseStatementMonth(month: string): { start: Date; end: Date } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1))
+  };
+}
+
+/**
+ * Builds an organization's statement for a month: every fleet booking scheduled in the
+ * month, every movement on the organization wallet, and the balance before and after
+ * @param organizationId - The organization
+ * @param month - The month as YYYY-MM; must be valid (see parseStatementMonth)
+ */
+export async function getMonthlyStatement(organizationId: string, month: string): Promise<MonthlyStatement> {
+  const period = parseStatementMonth(month);
+
+  if (!period) {
+    throw new Error(`Invalid statement month: ${month}`);
+  }
+
+  const periodStart = period.start.toISOString();
+  const periodEnd = period.end.toISOString();
+
+  const { data: bookings, error: bookingsError } = await supabase
+    .from('bookings')
+    .select(`
+      id, status, service_type, scheduled_time, total_amount, estimated_price,
+      payment_status, cancellation_fee,
+      vehicles:vehicle_id (id, make, model, year, license_plate),
+      booked_by:customer_id (id, first_name, last_name, email),
+      mechanics:mechanic_id (id, name)
+    `)
+    .eq('organization_id', organizationId)
+    .gte('scheduled_time', periodStart)
+    .lt('scheduled_time', periodEnd)
+    .order('scheduled_time', { ascending: true });
+
+  if (bookingsError) {
+    throw bookingsError;
+  }
+
+  const { data: transactions, error: transactionsError } = await supabase
+    .from('wallet_transactions')
+    .select('*')
+    .eq('user_id', organizationId)
+    .gte('created_at', periodStart)
+    .lt('created_at', periodEnd)
+    .order('created_at', { ascending: true });
+
+  if (transactionsError) {
+    throw transactionsError;
+  }
+
+  // The closing balance is today's balance without anything that happened after the month
+  const { data: wallet, error: walletError } = await supabase
+    .from('wallets')
+    .select('balance')
+    .eq('user_id', organizationId)
+    .maybeSingle();
+
+  if (walletError) {
+    throw walletError;
+  }
+
+  const { data: laterTransactions, error: laterError } = await supabase
+    .from('wallet_transactions')
+    .select('type, amount')
+    .eq('user_id', organizationId)
+    .gte('created_at', periodEnd);
+
+  if (laterError) {
+    throw laterError;
+  }
+
+  const closingBalance = (laterTransactions ?? []).reduce(
+    (balance, transaction) => balance - balanceEffect(transaction),
+    Number(wallet?.balance ?? 0)
+  );
+
+  const totals: StatementTotals = {
+    bookings: 0,
+    completed_bookings: 0,
+    cancelled_bookings: 0,
+    billed: 0,
+    cancellation_fees: 0,
+    credits: 0,
+    debits: 0
+  };
+
+  for (const booking of bookings ?? []) {
+    totals.bookings += 1;
+
+    if (booking.status === 'completed') {
+      totals.completed_bookings += 1;
+      totals.billed += Number(booking.total_amount ?? 0);
+    }
+
+    if (booking.status === 'cancelled') {
+      totals.cancelled_bookings += 1;
+      totals.cancellation_fees += Number(booking.cancellation_fee ?? 0);
+    }
+  }
+
+  let netChange = 0;
+
+  for (const transaction of transactions ?? []) {
+    const effect = balanceEffect(transaction);
+
+    if (effect > 0) {
+      totals.credits += effect;
+    } else {
+      totals.debits -= effect;
+    }
+
+    netChange += effect;
+  }
+
+  totals.billed = roundAmount(totals.billed);
+  totals.cancellation_fees = roundAmount(totals.cancellation_fees);
+  totals.credits = roundAmount(totals.credits);
+  totals.debits = roundAmount(totals.debits);
+
+  return {
+    organization_id: organizationId,
+    month,
+    period_start: periodStart,
+    period_end: periodEnd,
+    opening_balance: roundAmount(closingBalance - netChange),
+    closing_balance: roundAmount(closingBalance),
+    totals,
+    bookings: bookings ?? [],
+    transactions: transactions ?? []
+  };
+}
@@ -0,0 +1,204 @@
+import { supabase } from './supabase';
+import { createNotification } from './notifications';
+import { SLOT_DURATION_MINUTES } from './availability';
+
+// Share of each booking payment kept by the platform
+export const PLATFORM_COMMISSION_RATE = Number(process.env.PLATFORM_COMMISSION_RATE ?? 0.1);
+
+export type SettlementResult =
+  | { status: 'paid'; settlement: Record<string, any> }
+  | { status: 'payment_pending' };
+
+/**
+ * Checks whether a database error was raised because a wallet could not cover a debit
+ */
+export function isInsufficientFundsError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'message' in error &&
+    typeof error.message === 'string' && /insufficient funds/i.test(error.message);
+}
+
+/**
+ * Checks whether a database error was raised because a wallet transaction reused a reference_id
+ */
+export function isDuplicateReferenceError(error: { message: string }): boolean {
+  return /duplicate reference_id/i.test(error.message) ||
+    /wallet_transactions_user_reference_idx/.test(error.message);
+}
+
+/**
+ * Settles a completed booking through the wallets
+ * Captures the customer's hold (or debits them directly if there is none), credits
+ * the mechanic and records the platform commission in a single database transaction. If the settlement
+ * fails the booking is marked as payment_pending, so POST /api/bookings/[id]/pay can retry it;
+ * failures other than the customer's lack of funds are then rethrown.
+ * @param booking - The completed booking
+ * @returns The outcome of the settlement
+ */
+export async function settleBookingPayment(booking: {
+  id: string;
+  customer_id: string;
+  mechanic_id: string;
+}): Promise<SettlementResult> {
+  const { data, error } = await supabase.rpc('settle_booking_payment', {
+    p_booking_id: booking.id,
+    p_commission_rate: PLATFORM_COMMISSION_RATE
+  });
+
+  if (error) {
+    const { error: updateError } = await supabase
+      .from('bookings')
+      .update({
+        payment_status: 'payment_pending',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!isInsufficientFundsError(error)) {
+      throw error;
+    }
+
+    await createNotification({
+      userId: booking.customer_id,
+      type: 'payment_pending',
+      title: 'Payment Required',
+      message: 'We could not charge your wallet for your completed booking. Please top up your wallet to settle the payment.',
+      relatedId: booking.id
+    });
+
+    return { status: 'payment_pending' };
+  }
+
+  await createNotification({
+    userId: booking.mechanic_id,
+    type: 'payment_received',
+    title: 'Payment Received',
+    message: 'The payment for your completed booking has been credited to your wallet.',
+    relatedId: booking.id
+  });
+
+  return { status: 'paid', settlement: data };
+}
+
+/**
+ * Estimates what a booking will cost before the mechanic has set a final amount
+ * Uses the price of the booked service, falling back to one slot of the mechanic's hourly rate
+ * @param booking - The booking to estimate
+ * @returns The estimated amount, or 0 if there is nothing to base it on
+ */
+export async function estimateBookingAmount(booking: {
+  mechanic_id: string;
+  total_amount?: number | null;
+  estimated_price?: number | null;
+}): Promise<number> {
+  if (booking.total_amount && Number(booking.total_amount) > 0) {
+    return Number(booking.total_amount);
+  }
+
+  if (booking.estimated_price && Number(booking.estimated_price) > 0) {
+    return Number(booking.estimated_price);
+  }
+
+  const { data: mechanic, error } = await supabase
+    .from('mechanics')
+    .select('hourly_rate')
+    .eq('id', booking.mechanic_id)
+    .single();
+
+  if (error || !mechanic?.hourly_rate) {
+    return 0;
+  }
+
+  return Math.round(Number(mechanic.hourly_rate) * (SLOT_DURATION_MINUTES / 60) * 100) / 100;
+}
+
+/**
+ * Reserves the estimated cost of a booking in the payer's wallet: the booking's
+ * organization if it has one, otherwise the customer
+ * The held amount stays in the balance but can no longer be spent elsewhere.
+ * @param booking - The booking being confirmed
+ * @returns The hold transaction, or null if there was nothing to hold
+ * @throws The database error, including "Insufficient funds" when the payer cannot cover the hold
+ */
+export async function placeBookingHold(booking: {
+  id: string;
+  customer_id: string;
+  mechanic_id: string;
+  organization_id?: string | null;
+  total_amount?: number | null;
+  estimated_price?: number | null;
+}): Promise<Record<string, any> | null> {
+  const amount = await estimateBookingAmount(booking);
+
+  if (amount <= 0) {
+    return null;
+  }
+
+  const { data, error } = await supabase.rpc('place_wallet_hold', {
+    p_user_id: booking.organization_id ?? booking.customer_id,
+    p_booking_id: booking.id,
+    p_amount: amount
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Returns any amount still held for a booking to the customer's available balance
+ * @param bookingId - The booking whose hold should be released
+ * @returns The release transaction, or null if the booking had no active hold
+ */
+export async function releaseBookingHold(bookingId: string): Promise<Record<string, any> | null> {
+  const { data, error } = await supabase.rpc('release_wallet_hold', {
+    p_booking_id: bookingId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Checks whether a refund was rejected because it would exceed what the customer paid
+ */
+export function isRefundLimitError(error: { message: string }): boolean {
+  return /exceeds refundable amount|nothing to refund/i.test(error.message);
+}
+
+/**
+ * Refunds (part of) a booking payment into the customer's wallet
+ * @param bookingId - The booking to refund
+ * @param options - Amount (omit for a full refund), reason, who initiated it and
+ *                  whether the mechanic's wallet should cover the refund
+ * @returns The refund record with both wallet transactions
+ * @throws The database error, e.g. when the cap is exceeded or the mechanic lacks funds
+ */
+export async function refundBooking(bookingId: string, options: {
+  amount?: number;
+  reason?: string;
+  initiatedBy: string;
+  chargeMechanic: boolean;
+}): Promise<Record<string, any>> {
+  const { data, error } = await supabase.rpc('refund_booking', {
+    p_booking_id: bookingId,
+    p_amount: options.amount ?? null,
+    p_reason: options.reason ?? null,
+    p_initiated_by: options.initiatedBy,
+    p_charge_mechanic: options.chargeMechanic
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
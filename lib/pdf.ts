@@ -0,0 +1,106 @@
+// A4 page size and layout in PDF points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+const LINE_SPACING = 1.4;
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  size?: number; // Font size in points
+}
+
+/**
+ * Escapes text for a PDF string literal
+ * The built-in fonts only cover Latin-1, so other characters are replaced.
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+function paginate(lines: PdfLine[]): PdfLine[][] {
+  const pages: PdfLine[][] = [[]];
+  let remaining = PAGE_HEIGHT - 2 * MARGIN;
+
+  for (const line of lines) {
+    const height = (line.size ?? DEFAULT_FONT_SIZE) * LINE_SPACING;
+
+    if (height > remaining && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      remaining = PAGE_HEIGHT - 2 * MARGIN;
+    }
+
+    pages[pages.length - 1].push(line);
+    remaining -= height;
+  }
+
+  return pages;
+}
+
+function renderPageContent(lines: PdfLine[]): string {
+  const commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    y -= size * LINE_SPACING;
+
+    if (line.text) {
+      commands.push(
+        `BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapeText(line.text)}) Tj ET`
+      );
+    }
+  }
+
+  return commands.join('\n');
+}
+
+/**
+ * Renders lines of text as a PDF document
+ * Text is set in Courier so that columns padded with spaces line up. Lines
+ * flow onto new pages as needed; long lines are not wrapped.
+ * @param lines - Lines to print from the top of the first page
+ * @returns The PDF file contents
+ */
+export function renderPdf(lines: PdfLine[]): Buffer {
+  const pages = paginate(lines);
+  const objects: string[] = [];
+
+  // Fixed objects: catalog, page tree and the two fonts
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((page, index) => {
+    const content = renderPageContent(page);
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Byte offsets of each object are needed for the cross-reference table
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,193 @@
+import { supabase } from './supabase';
+import { v4 as uuidv4 } from 'uuid';
+
+export type QuoteItemType = 'part' | 'labour' | 'fee';
+
+const ITEM_TYPES: QuoteItemType[] = ['part', 'labour', 'fee'];
+
+export interface QuoteItem {
+  item_type: QuoteItemType;
+  description: string;
+  quantity: number; // Hours for labour
+  unit_price: number;
+  amount: number;
+}
+
+export interface QuoteDraft {
+  items: QuoteItem[];
+  subtotal: number;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+  notes: string | null;
+}
+
+// Columns returned for quotes, with their line items in order
+export const QUOTE_COLUMNS = `
+  *,
+  items:booking_quote_items (position, item_type, description, quantity, unit_price, amount)
+`;
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Validates the line items of a quote and computes its totals
+ * @param body - Request body with items, an optional tax_rate percentage and notes
+ * @returns The priced quote, and an error message if the body is invalid
+ */
+export function parseQuote(body: Record<string, any>): { data: QuoteDraft | null; error: string | null } {
+  const { items, tax_rate = 0, notes = null } = body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return { data: null, error: 'items must be a non-empty array of { item_type, description, quantity, unit_price }' };
+  }
+
+  if (typeof tax_rate !== 'number' || tax_rate < 0 || tax_rate > 100) {
+    return { data: null, error: 'tax_rate must be a percentage between 0 and 100' };
+  }
+
+  const parsed: QuoteItem[] = [];
+
+  for (const item of items) {
+    if (!item || !ITEM_TYPES.includes(item.item_type)) {
+      return { data: null, error: `item_type must be one of: ${ITEM_TYPES.join(', ')}` };
+    }
+
+    if (typeof item.description !== 'string' || !item.description.trim()) {
+      return { data: null, error: 'Each item needs a description' };
+    }
+
+    if (typeof item.quantity !== 'number' || item.quantity <= 0) {
+      return { data: null, error: 'quantity must be a positive number' };
+    }
+
+    if (typeof item.unit_price !== 'number' || item.unit_price < 0) {
+      return { data: null, error: 'unit_price must be a non-negative number' };
+    }
+
+    parsed.push({
+      item_type: item.item_type,
+      description: item.description.trim(),
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      amount: roundMoney(item.quantity * item.unit_price)
+    });
+  }
+
+  const subtotal = roundMoney(parsed.reduce((sum, item) => sum + item.amount, 0));
+  const taxAmount = roundMoney(subtotal * tax_rate / 100);
+
+  if (subtotal + taxAmount <= 0) {
+    return { data: null, error: 'Quote total must be positive' };
+  }
+
+  return {
+    data: {
+      items: parsed,
+      subtotal,
+      tax_rate,
+      tax_amount: taxAmount,
+      total: roundMoney(subtotal + taxAmount),
+      notes
+    },
+    error: null
+  };
+}
+
+/**
+ * Submits a quote for a booking, superseding any quote still awaiting an answer
+ * @param booking - The booking being quoted
+ * @param draft - Priced quote from parseQuote
+ * @returns The new quote with its line items
+ */
+export async function submitQuote(
+  booking: { id: string; mechanic_id: string },
+  draft: QuoteDraft
+): Promise<Record<string, any>> {
+  const now = new Date().toISOString();
+
+  const { error: supersedeError } = await supabase
+    .from('booking_quotes')
+    .update({ status: 'superseded', updated_at: now })
+    .eq('booking_id', booking.id)
+    .eq('status', 'pending');
+
+  if (supersedeError) {
+    throw supersedeError;
+  }
+
+  const quoteId = uuidv4();
+  const { error: quoteError } = await supabase
+    .from('booking_quotes')
+    .insert({
+      id: quoteId,
+      booking_id: booking.id,
+      mechanic_id: booking.mechanic_id,
+      status: 'pending',
+      subtotal: draft.subtotal,
+      tax_rate: draft.tax_rate,
+      tax_amount: draft.tax_amount,
+      total: draft.total,
+      notes: draft.notes,
+      created_at: now
+    });
+
+  if (quoteError) {
+    throw quoteError;
+  }
+
+  const { error: itemsError } = await supabase
+    .from('booking_quote_items')
+    .insert(draft.items.map((item, position) => ({
+      id: uuidv4(),
+      quote_id: quoteId,
+      position,
+      ...item
+    })));
+
+  // Don't leave a quote without its items behind
+  if (itemsError) {
+    await supabase.from('booking_quotes').delete().eq('id', quoteId);
+    throw itemsError;
+  }
+
+  const { data, error } = await supabase
+    .from('booking_quotes')
+    .select(QUOTE_COLUMNS)
+    .eq('id', quoteId)
+    .order('position', { referencedTable: 'booking_quote_items' })
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Checks whether a booking has a quote approved by the customer
+ * @param bookingId - The booking to check
+ */
+export async function hasApprovedQuote(bookingId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('booking_quotes')
+    .select('id', { count: 'exact', head: true })
+    .eq('booking_id', bookingId)
+    .eq('status', 'approved');
+
+  if (error) {
+    throw error;
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Checks whether an error comes from answering a quote that is no longer pending
+ */
+export function isQuoteNotPendingError(error: unknown): boolean {
+  return /quote is not pending/i.test((error as { message?: string })?.message ?? '');
+}
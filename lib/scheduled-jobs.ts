@@ -0,0 +1,375 @@
+import { supabase } from './supabase';
+import { createNotification } from './notifications';
+import { recordBookingEvent, SYSTEM_ACTOR } from './booking-events';
+import { BOOKING_STATE_COLUMNS, transitionBooking } from './booking-state-machine';
+import { computeMaintenance, getMaintenanceSchedules } from './maintenance';
+import { getVehicleHistory } from './vehicle-history';
+import { claimVehicleAlert } from './vehicles';
+import { INSURANCE_ALERT_DAYS } from './insurance';
+import { getVehicleOwnerIds } from './vehicle-access';
+
+// Hours a mechanic has to confirm a pending booking before it expires
+export const BOOKING_CONFIRMATION_HOURS = Number(process.env.BOOKING_CONFIRMATION_HOURS ?? 24);
+
+// Minutes after scheduled_time before a confirmed booking that never started is a no-show
+export const NO_SHOW_GRACE_MINUTES = Number(process.env.NO_SHOW_GRACE_MINUTES ?? 60);
+
+// Most bookings a job handles per run; the rest are picked up by the next run
+const BATCH_SIZE = 100;
+
+// The 1 hour reminder is handled first so a booking inside that window only gets one reminder
+const REMINDERS = [
+  { column: 'reminder_1h_sent_at', hours: 1, label: 'within the hour' },
+  { column: 'reminder_24h_sent_at', hours: 24, label: 'within 24 hours' }
+] as const;
+
+export interface JobResult {
+  processed: number;
+  failed: number;
+}
+
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  run: (now: Date) => Promise<JobResult>;
+}
+
+export interface JobRun extends Partial<JobResult> {
+  job: string;
+  error?: string;
+}
+
+/**
+ * Cancels pending bookings the mechanic did not confirm in time
+ * Bookings whose scheduled time has passed expire as well.
+ */
+async function expirePendingBookings(now: Date): Promise<JobResult> {
+  const createdBefore = new Date(now.getTime() - BOOKING_CONFIRMATION_HOURS * 3600000).toISOString();
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select(BOOKING_STATE_COLUMNS)
+    .eq('status', 'pending')
+    .or(`created_at.lt.${createdBefore},scheduled_time.lt.${now.toISOString()}`)
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  const result: JobResult = { processed: 0, failed: 0 };
+
+  for (const booking of bookings ?? []) {
+    try {
+      // The state machine notifies both parties
+      const { error: transitionError } = await transitionBooking(booking, 'cancelled', SYSTEM_ACTOR, {
+        reason: 'Not confirmed by the mechanic in time'
+      });
+
+      // A booking confirmed since it was read is no longer due to expire
+      if (transitionError && transitionError.status !== 409) {
+        throw new Error(transitionError.message);
+      }
+
+      if (!transitionError) {
+        result.processed++;
+      }
+    } catch (bookingError) {
+      console.error(`Error expiring booking ${booking.id}:`, bookingError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reminds both parties of confirmed bookings starting within 24 hours and within 1 hour
+ * Each reminder is claimed by setting its sent_at column first, so overlapping runs
+ * never send it twice.
+ */
+async function sendBookingReminders(now: Date): Promise<JobResult> {
+  const result: JobResult = { processed: 0, failed: 0 };
+
+  for (const reminder of REMINDERS) {
+    const { data: bookings, error } = await supabase
+      .from('bookings')
+      .select('id, customer_id, mechanic_id, scheduled_time, service_type')
+      .eq('status', 'confirmed')
+      .is(reminder.column, null)
+      .gt('scheduled_time', now.toISOString())
+      .lte('scheduled_time', new Date(now.getTime() + reminder.hours * 3600000).toISOString())
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const booking of bookings ?? []) {
+      try {
+        // Sending the 1 hour reminder also settles the 24 hour one
+        const claim: Record<string, string> = { [reminder.column]: now.toISOString() };
+
+        if (reminder.hours === 1) {
+          claim.reminder_24h_sent_at = now.toISOString();
+        }
+
+        const { data: claimed, error: claimError } = await supabase
+          .from('bookings')
+          .update(claim)
+          .eq('id', booking.id)
+          .is(reminder.column, null)
+          .select('id');
+
+        if (claimError) {
+          throw claimError;
+        }
+
+        if (!claimed || claimed.length === 0) {
+          continue;
+        }
+
+        for (const userId of [booking.customer_id, booking.mechanic_id]) {
+          await createNotification({
+            userId,
+            type: 'booking_reminder',
+            title: 'Upcoming Booking',
+            message: `Your ${booking.service_type} booking starts ${reminder.label}, at ${booking.scheduled_time}.`,
+            relatedId: booking.id
+          });
+        }
+
+        result.processed++;
+      } catch (bookingError) {
+        console.error(`Error sending reminder for booking ${booking.id}:`, bookingError);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Flags confirmed bookings that never moved to in_progress as no-shows
+ * The booking is left confirmed so support can decide who is at fault and confirm
+ * the no-show, which cancels it and charges that party under the cancellation policy.
+ */
+async function flagNoShows(now: Date): Promise<JobResult> {
+  const startedBefore = new Date(now.getTime() - NO_SHOW_GRACE_MINUTES * 60000).toISOString();
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .update({ no_show_flagged_at: now.toISOString(), updated_at: now.toISOString() })
+    .eq('status', 'confirmed')
+    .is('no_show_flagged_at', null)
+    .lt('scheduled_time', startedBefore)
+    .select('id, customer_id, mechanic_id');
+
+  if (error) {
+    throw error;
+  }
+
+  for (const booking of bookings ?? []) {
+    await recordBookingEvent(booking.id, SYSTEM_ACTOR, 'no_show_flagged');
+
+    for (const userId of [booking.customer_id, booking.mechanic_id]) {
+      await createNotification({
+        userId,
+        type: 'booking_no_show',
+        title: 'Missed Booking',
+        message: 'This booking was never started and has been flagged as a no-show. Contact support if this is a mistake.',
+        relatedId: booking.id
+      });
+    }
+  }
+
+  return { processed: bookings?.length ?? 0, failed: 0 };
+}
+
+/**
+ * Notifies owners (or fleet admins) of vehicles with a scheduled service that became due soon or overdue
+ * Each vehicle is checked at most once a day. An alert is keyed to the service's due
+ * point, so it is sent once, and again only after the service is done and comes due anew.
+ */
+async function sendMaintenanceReminders(now: Date): Promise<JobResult> {
+  const checkedBefore = new Date(now.getTime() - 24 * 3600000).toISOString();
+
+  const { data: vehicles, error } = await supabase
+    .from('vehicles')
+    .select('id, user_id, organization_id, make, model, year, mileage')
+    .is('archived_at', null)
+    .or(`maintenance_checked_at.is.null,maintenance_checked_at.lt.${checkedBefore}`)
+    .order('maintenance_checked_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  const schedules = await getMaintenanceSchedules();
+  const result: JobResult = { processed: 0, failed: 0 };
+
+  for (const vehicle of vehicles ?? []) {
+    try {
+      const history = await getVehicleHistory(vehicle.id);
+      const due = computeMaintenance(vehicle, history, schedules, now).filter(item => item.status !== 'ok');
+
+      for (const item of due) {
+        const alertType = `maintenance_${item.status}`;
+        const alertKey = `${item.service_type}:${item.due_mileage ?? ''}:${item.due_date ?? ''}`;
+
+        if (!(await claimVehicleAlert(vehicle.id, alertType, alertKey))) {
+          continue;
+        }
+
+        const when = item.status === 'overdue' ? 'is overdue' : 'is due soon';
+        const details = [
+          item.due_mileage !== null ? `at ${item.due_mileage} km` : null,
+          item.due_date !== null ? `by ${item.due_date}` : null
+        ].filter(Boolean).join(' or ');
+
+        for (const ownerId of await getVehicleOwnerIds(vehicle)) {
+          await createNotification({
+            userId: ownerId,
+            type: alertType,
+            title: item.status === 'overdue' ? 'Maintenance Overdue' : 'Maintenance Due Soon',
+            message: `${item.service_name} for your ${vehicle.year} ${vehicle.make} ${vehicle.model} ${when} (${details}).`,
+            relatedId: vehicle.id
+          });
+        }
+      }
+
+      const { error: checkError } = await supabase
+        .from('vehicles')
+        .update({ maintenance_checked_at: now.toISOString() })
+        .eq('id', vehicle.id);
+
+      if (checkError) {
+        throw checkError;
+      }
+
+      result.processed++;
+    } catch (vehicleError) {
+      console.error(`Error checking maintenance for vehicle ${vehicle.id}:`, vehicleError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Notifies owners (or fleet admins) whose vehicle insurance expires within 30 days, and again within 7 days
+ * Alerts are keyed to the policy and its expiry date, so a renewed policy is alerted anew.
+ */
+async function sendInsuranceExpiryAlerts(now: Date): Promise<JobResult> {
+  const today = now.toISOString().slice(0, 10);
+  const horizon = new Date(now.getTime() + Math.max(...INSURANCE_ALERT_DAYS) * 86400000).toISOString().slice(0, 10);
+  const result: JobResult = { processed: 0, failed: 0 };
+
+  // Vehicles stay in the window for weeks, so every page is checked rather than one batch
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data: vehicles, error } = await supabase
+      .from('vehicles')
+      .select('id, user_id, organization_id, make, model, year, insurance_info')
+      .is('archived_at', null)
+      .gte('insurance_info->>expiry_date', today)
+      .lte('insurance_info->>expiry_date', horizon)
+      .order('id')
+      .range(from, from + BATCH_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const vehicle of vehicles ?? []) {
+      try {
+        const { policy_number, provider, expiry_date } = vehicle.insurance_info;
+        const daysLeft = Math.round(
+          (new Date(`${expiry_date}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime()) / 86400000
+        );
+        // The closest threshold already reached
+        const threshold = INSURANCE_ALERT_DAYS.find(days => daysLeft <= days);
+
+        if (threshold === undefined ||
+            !(await claimVehicleAlert(vehicle.id, `insurance_expiry_${threshold}d`, `${policy_number}:${expiry_date}`))) {
+          continue;
+        }
+
+        for (const ownerId of await getVehicleOwnerIds(vehicle)) {
+          await createNotification({
+            userId: ownerId,
+            type: 'insurance_expiring',
+            title: 'Insurance Expiring',
+            message: `Your ${provider} policy ${policy_number} for your ${vehicle.year} ${vehicle.make} ${vehicle.model} ` +
+              `expires on ${expiry_date}${daysLeft === 0 ? ', today' : `, in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}.`,
+            relatedId: vehicle.id
+          });
+        }
+
+        result.processed++;
+      } catch (vehicleError) {
+        console.error(`Error sending insurance alert for vehicle ${vehicle.id}:`, vehicleError);
+        result.failed++;
+      }
+    }
+
+    if (!vehicles || vehicles.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+// Jobs in the order they run
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+  {
+    name: 'expire-pending-bookings',
+    description: `Cancel pending bookings not confirmed within ${BOOKING_CONFIRMATION_HOURS} hours`,
+    run: expirePendingBookings
+  },
+  {
+    name: 'booking-reminders',
+    description: 'Send 24 hour and 1 hour reminders of confirmed bookings',
+    run: sendBookingReminders
+  },
+  {
+    name: 'flag-no-shows',
+    description: `Flag confirmed bookings not started ${NO_SHOW_GRACE_MINUTES} minutes after their scheduled time`,
+    run: flagNoShows
+  },
+  {
+    name: 'maintenance-reminders',
+    description: 'Notify owners of vehicles with maintenance due soon or overdue',
+    run: sendMaintenanceReminders
+  },
+  {
+    name: 'insurance-expiry-alerts',
+    description: `Notify owners whose vehicle insurance expires within ${INSURANCE_ALERT_DAYS.join(' or ')} days`,
+    run: sendInsuranceExpiryAlerts
+  }
+];
+
+/**
+ * Runs scheduled jobs one after the other
+ * A failing job is reported in the results without stopping the others.
+ * @param names - Jobs to run; all jobs when omitted
+ * @param now - Reference time for the run
+ */
+export async function runScheduledJobs(names?: string[], now: Date = new Date()): Promise<JobRun[]> {
+  const jobs = names ? SCHEDULED_JOBS.filter(job => names.includes(job.name)) : SCHEDULED_JOBS;
+  const runs: JobRun[] = [];
+
+  for (const job of jobs) {
+    try {
+      runs.push({ job: job.name, ...(await job.run(now)) });
+    } catch (error: any) {
+      console.error(`Error running scheduled job ${job.name}:`, error);
+      runs.push({ job: job.name, error: error?.message ?? 'Job failed' });
+    }
+  }
+
+  return runs;
+}
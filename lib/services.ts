@@ -0,0 +1,71 @@
+import { supabase } from './supabase';
+
+export interface ServiceOffering {
+  service_id: string;
+  code: string;
+  name: string;
+  estimated_duration_minutes: number;
+  base_price: number;
+  price: number; // The mechanic's price override, or the base price
+}
+
+/**
+ * Lists the catalog services a mechanic offers, with their effective prices
+ * @param mechanicId - The mechanic whose offerings to list
+ */
+export async function getMechanicOfferings(mechanicId: string): Promise<ServiceOffering[]> {
+  const { data, error } = await supabase
+    .from('mechanic_services')
+    .select(`
+      price_override,
+      services!inner (id, code, name, estimated_duration_minutes, base_price, is_active)
+    `)
+    .eq('mechanic_id', mechanicId)
+    .eq('services.is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(offering => {
+    const service = offering.services as unknown as Record<string, any>;
+
+    return {
+      service_id: service.id,
+      code: service.code,
+      name: service.name,
+      estimated_duration_minutes: service.estimated_duration_minutes,
+      base_price: Number(service.base_price),
+      price: Number(offering.price_override ?? service.base_price)
+    };
+  });
+}
+
+/**
+ * Looks up a single service offered by a mechanic
+ * @param mechanicId - The mechanic to check
+ * @param code - Catalog code of the service
+ * @returns The offering, or null if the mechanic does not offer the service
+ */
+export async function getMechanicOffering(mechanicId: string, code: string): Promise<ServiceOffering | null> {
+  const offerings = await getMechanicOfferings(mechanicId);
+  return offerings.find(offering => offering.code === code) ?? null;
+}
+
+/**
+ * Lists the IDs of mechanics offering a catalog service
+ * @param code - Catalog code of the service
+ */
+export async function getMechanicIdsOfferingService(code: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('mechanic_services')
+    .select('mechanic_id, services!inner (code, is_active)')
+    .eq('services.code', code)
+    .eq('services.is_active', true);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(offering => offering.mechanic_id);
+}
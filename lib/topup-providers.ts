@@ -0,0 +1,106 @@
+import { NextApiRequest } from 'next';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface TopUpRequest {
+  topUpId: string;
+  userId: string;
+  amount: number;
+}
+
+export interface TopUpSession {
+  providerReference: string;
+  checkoutUrl: string | null;
+}
+
+export interface TopUpConfirmation {
+  providerReference: string;
+  amount: number;
+  status: 'succeeded' | 'failed';
+}
+
+/**
+ * A payment provider that can collect money for wallet top-ups
+ * Wallets are only ever credited from a callback the provider has verified.
+ */
+export interface TopUpProvider {
+  name: string;
+
+  /**
+   * Starts a payment with the provider
+   * @param request - The pending top-up
+   * @returns The provider's reference and where to send the user to pay
+   */
+  createTopUp(request: TopUpRequest): Promise<TopUpSession>;
+
+  /**
+   * Authenticates and parses a provider callback
+   * @param req - The incoming callback request
+   * @returns The payment outcome, or null if the callback is not genuine
+   */
+  verifyCallback(req: NextApiRequest): Promise<TopUpConfirmation | null>;
+}
+
+/**
+ * Local stand-in for a real payment provider, for development and tests
+ * Payments are "completed" by posting a callback signed with FAKE_TOPUP_SECRET
+ * in the x-fake-signature header (hex HMAC-SHA256 of the JSON body).
+ */
+export class FakeTopUpProvider implements TopUpProvider {
+  name = 'fake';
+
+  constructor(private secret: string) {}
+
+  async createTopUp(request: TopUpRequest): Promise<TopUpSession> {
+    return {
+      providerReference: `fake_${request.topUpId}`,
+      checkoutUrl: null
+    };
+  }
+
+  async verifyCallback(req: NextApiRequest): Promise<TopUpConfirmation | null> {
+    const signature = req.headers['x-fake-signature'];
+
+    if (typeof signature !== 'string' || !req.body) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(req.body), 'hex');
+    const received = Buffer.from(signature, 'hex');
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    const { provider_reference, amount, status } = req.body;
+
+    if (typeof provider_reference !== 'string' || typeof amount !== 'number' ||
+        (status !== 'succeeded' && status !== 'failed')) {
+      return null;
+    }
+
+    return { providerReference: provider_reference, amount, status };
+  }
+
+  /**
+   * Produces the signature a genuine callback would carry
+   */
+  sign(payload: unknown): string {
+    return createHmac('sha256', this.secret).update(JSON.stringify(payload)).digest('hex');
+  }
+}
+
+/**
+ * Resolves a configured top-up provider by name
+ * @param name - Provider name; defaults to the TOPUP_PROVIDER environment variable
+ * @returns The provider, or null if it is unknown or not configured
+ */
+export function getTopUpProvider(name = process.env.TOPUP_PROVIDER || 'fake'): TopUpProvider | null {
+  switch (name) {
+    case 'fake':
+      return process.env.FAKE_TOPUP_SECRET
+        ? new FakeTopUpProvider(process.env.FAKE_TOPUP_SECRET)
+        : null;
+    default:
+      return null;
+  }
+}
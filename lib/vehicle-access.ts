@@ -0,0 +1,169 @@
+import { supabase } from './supabase';
+import { getOrganizationMemberIds, getOrganizationRole, OrganizationRole } from './organizations';
+
+export type VehicleRole = 'owner' | 'manager' | 'driver';
+
+export type VehicleAction = 'view' | 'book' | 'edit' | 'view_bookings' | 'delete' | 'share';
+
+// Roles a vehicle can be shared with; the owner is the vehicle's user_id,
+// or for fleet vehicles the organization (user_id then only records who added it)
+export const SHARE_ROLES: VehicleRole[] = ['manager', 'driver'];
+
+// What each role may do with a vehicle
+const PERMISSIONS: Record<VehicleRole, VehicleAction[]> = {
+  owner: ['view', 'book', 'edit', 'view_bookings', 'delete', 'share'],
+  manager: ['view', 'book', 'edit', 'view_bookings'],
+  driver: ['view', 'book']
+};
+
+// The vehicle role organization members get on the organization's vehicles
+export const ORGANIZATION_VEHICLE_ROLES: Record<OrganizationRole, VehicleRole> = {
+  owner: 'owner',
+  admin: 'manager',
+  member: 'driver'
+};
+
+// How each action reads in error messages
+const ACTION_LABELS: Record<VehicleAction, string> = {
+  view: 'view',
+  book: 'book service for',
+  edit: 'edit',
+  view_bookings: 'view the bookings of',
+  delete: 'delete',
+  share: 'share'
+};
+
+// The vehicle columns access is decided on
+interface AccessVehicle {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+}
+
+export interface VehicleAccess {
+  vehicle: Record<string, any> | null;
+  role: VehicleRole | null;
+  error: { status: 403 | 404; message: string } | null;
+}
+
+/**
+ * Checks whether a role allows an action on a vehicle
+ */
+export function canAccessVehicle(role: VehicleRole | null, action: VehicleAction): boolean {
+  return role !== null && PERMISSIONS[role].includes(action);
+}
+
+/**
+ * Works out a user's role on a vehicle: its owner or the role of an accepted share,
+ * or for fleet vehicles the role that comes with the user's current organization role
+ * @param vehicle - The vehicle's id, owner and organization
+ * @param userId - The user
+ * @returns The role, or null if the vehicle is not shared with the user
+ */
+export async function getVehicleRole(
+  vehicle: { id: string; user_id: string; organization_id?: string | null },
+  userId: string
+): Promise<VehicleRole | null> {
+  // The organization owns its fleet, so only membership counts
+  if (vehicle.organization_id) {
+    const organizationRole = await getOrganizationRole(vehicle.organization_id, userId);
+
+    return organizationRole ? ORGANIZATION_VEHICLE_ROLES[organizationRole] : null;
+  }
+
+  if (vehicle.user_id === userId) {
+    return 'owner';
+  }
+
+  const { data: share, error } = await supabase
+    .from('vehicle_shares')
+    .select('role')
+    .eq('vehicle_id', vehicle.id)
+    .eq('user_id', userId)
+    .eq('status', 'accepted')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (share?.role as VehicleRole | undefined) ?? null;
+}
+
+/**
+ * Fetches a vehicle and checks that a user may perform an action on it
+ * @param vehicleId - The vehicle
+ * @param userId - The user
+ * @param action - What the user wants to do
+ * @param columns - Vehicle columns to fetch; must include id, user_id and organization_id
+ */
+export async function checkVehicleAccess(
+  vehicleId: string,
+  userId: string,
+  action: VehicleAction,
+  columns = '*'
+): Promise<VehicleAccess> {
+  const { data: vehicle, error } = await supabase
+    .from('vehicles')
+    .select(columns)
+    .eq('id', vehicleId)
+    .maybeSingle<AccessVehicle>();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!vehicle) {
+    return { vehicle: null, role: null, error: { status: 404, message: 'Vehicle not found' } };
+  }
+
+  const role = await getVehicleRole(vehicle, userId);
+
+  if (!role) {
+    return { vehicle: null, role: null, error: { status: 403, message: 'Not authorized to access this vehicle' } };
+  }
+
+  if (!canAccessVehicle(role, action)) {
+    return {
+      vehicle,
+      role,
+      error: { status: 403, message: `Vehicle ${role}s cannot ${ACTION_LABELS[action]} this vehicle` }
+    };
+  }
+
+  return { vehicle, role, error: null };
+}
+
+/**
+ * Lists who is told about a vehicle: its owner, or the owners and admins of its organization
+ * @param vehicle - The vehicle's owner and organization
+ * @returns Their user IDs
+ */
+export async function getVehicleOwnerIds(vehicle: { user_id: string; organization_id?: string | null }): Promise<string[]> {
+  return vehicle.organization_id ? getOrganizationMemberIds(vehicle.organization_id) : [vehicle.user_id];
+}
+
+/**
+ * Lists the vehicles shared with a user and the user's role on each
+ * @param userId - The user
+ * @returns Role by vehicle ID, for accepted shares only
+ */
+export async function getSharedVehicleRoles(userId: string): Promise<Record<string, VehicleRole>> {
+  const { data, error } = await supabase
+    .from('vehicle_shares')
+    .select('vehicle_id, role')
+    .eq('user_id', userId)
+    .eq('status', 'accepted');
+
+  if (error) {
+    throw error;
+  }
+
+  const roles: Record<string, VehicleRole> = {};
+
+  for (const share of data ?? []) {
+    roles[share.vehicle_id] = share.role as VehicleRole;
+  }
+
+  return roles;
+}
@@ -0,0 +1,277 @@
+import { supabase } from './supabase';
+import { PdfLine, renderPdf } from './pdf';
+
+export interface VehicleHistoryEntry {
+  source: 'booking' | 'manual';
+  id: string; // Booking ID or manual entry ID
+  date: string; // When the work was done, as YYYY-MM-DD
+  service_type: string;
+  service_name: string | null;
+  description: string | null; // Mechanic notes, or the owner's description
+  mileage: number | null;
+  cost: number | null;
+  provider: string | null; // Mechanic or workshop
+  invoice_number: string | null;
+}
+
+export interface HistoryVehicle {
+  make: string;
+  model: string;
+  year: number;
+  license_plate: string;
+  vin?: string | null;
+  mileage?: number | null;
+}
+
+export interface ManualServiceEntry {
+  performed_at: string;
+  service_type: string;
+  description: string | null;
+  mileage: number | null;
+  cost: number | null;
+  provider: string | null;
+}
+
+// A completed booking as selected for the history, with its service and mechanic
+interface HistoryBooking {
+  id: string;
+  scheduled_time: string;
+  service_type: string;
+  notes: string | null;
+  mileage_at_service: number | null;
+  total_amount: number | null;
+  services: { name: string } | null;
+  mechanics: { name: string } | null;
+}
+
+/**
+ * Validates a manual service log entry from a request body
+ * @param body - Request body
+ * @returns The entry to store, and an error message if it is invalid
+ */
+export function parseManualServiceEntry(
+  body: Record<string, any>
+): { data: ManualServiceEntry | null; error: string | null } {
+  const { performed_at, service_type, description, mileage, cost, provider } = body ?? {};
+
+  if (typeof performed_at !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(performed_at) ||
+      isNaN(new Date(performed_at).getTime())) {
+    return { data: null, error: 'performed_at must be a date in YYYY-MM-DD format' };
+  }
+
+  if (performed_at > new Date().toISOString().slice(0, 10)) {
+    return { data: null, error: 'performed_at cannot be in the future' };
+  }
+
+  if (typeof service_type !== 'string' || !service_type.trim()) {
+    return { data: null, error: 'service_type must be a non-empty string' };
+  }
+
+  for (const [field, value] of [['description', description], ['provider', provider]] as const) {
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return { data: null, error: `${field} must be a string` };
+    }
+  }
+
+  if (mileage !== undefined && mileage !== null && (!Number.isInteger(mileage) || mileage < 0)) {
+    return { data: null, error: 'mileage must be a non-negative integer' };
+  }
+
+  if (cost !== undefined && cost !== null && (typeof cost !== 'number' || !isFinite(cost) || cost < 0)) {
+    return { data: null, error: 'cost must be a non-negative number' };
+  }
+
+  return {
+    data: {
+      performed_at,
+      service_type: service_type.trim(),
+      description: description ?? null,
+      mileage: mileage ?? null,
+      cost: cost ?? null,
+      provider: provider ?? null
+    },
+    error: null
+  };
+}
+
+/**
+ * Builds the maintenance log of a vehicle, oldest first
+ * Combines the vehicle's completed bookings (with their invoices) and the entries
+ * its owner logged for work done elsewhere.
+ * @param vehicleId - The vehicle to look up
+ */
+export async function getVehicleHistory(vehicleId: string): Promise<VehicleHistoryEntry[]> {
+  const { data: bookings, error: bookingsError } = await supabase
+    .from('bookings')
+    .select(`
+      id, scheduled_time, service_type, notes, mileage_at_service, total_amount,
+      services:service_id (name),
+      mechanics:mechanic_id (name)
+    `)
+    .eq('vehicle_id', vehicleId)
+    .eq('status', 'completed')
+    .returns<HistoryBooking[]>();
+
+  if (bookingsError) {
+    throw bookingsError;
+  }
+
+  const bookingIds = (bookings ?? []).map(b => b.id);
+  const invoices: Record<string, { invoice_number: string; total: number }> = {};
+
+  if (bookingIds.length > 0) {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('booking_id, invoice_number, total')
+      .in('booking_id', bookingIds);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const invoice of data ?? []) {
+      invoices[invoice.booking_id] = invoice;
+    }
+  }
+
+  const { data: manualEntries, error: manualError } = await supabase
+    .from('vehicle_service_entries')
+    .select('*')
+    .eq('vehicle_id', vehicleId);
+
+  if (manualError) {
+    throw manualError;
+  }
+
+  const entries: VehicleHistoryEntry[] = (bookings ?? []).map(booking => {
+    const invoice = invoices[booking.id];
+
+    return {
+      source: 'booking',
+      id: booking.id,
+      date: new Date(booking.scheduled_time).toISOString().slice(0, 10),
+      service_type: booking.service_type,
+      service_name: booking.services?.name ?? null,
+      description: booking.notes ?? null,
+      mileage: booking.mileage_at_service ?? null,
+      cost: invoice ? Number(invoice.total) : booking.total_amount !== null ? Number(booking.total_amount) : null,
+      provider: booking.mechanics?.name ?? null,
+      invoice_number: invoice?.invoice_number ?? null
+    };
+  });
+
+  for (const entry of manualEntries ?? []) {
+    entries.push({
+      source: 'manual',
+      id: entry.id,
+      date: entry.performed_at,
+      service_type: entry.service_type,
+      service_name: null,
+      description: entry.description,
+      mileage: entry.mileage,
+      cost: entry.cost !== null ? Number(entry.cost) : null,
+      provider: entry.provider,
+      invoice_number: null
+    });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || (a.mileage ?? 0) - (b.mileage ?? 0));
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a maintenance log as CSV, one row per entry
+ */
+export function renderHistoryCsv(entries: VehicleHistoryEntry[]): string {
+  const header = ['date', 'source', 'service_type', 'service_name', 'description', 'mileage', 'cost', 'provider', 'invoice_number'];
+  const rows = entries.map(entry => [
+    entry.date,
+    entry.source,
+    entry.service_type,
+    entry.service_name,
+    entry.description,
+    entry.mileage,
+    entry.cost !== null ? entry.cost.toFixed(2) : null,
+    entry.provider,
+    entry.invoice_number
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Breaks text into lines of at most `width` characters, as the PDF renderer does not wrap
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = '';
+    }
+
+    line = line ? `${line} ${word}` : word;
+
+    while (line.length > width) {
+      lines.push(line.slice(0, width));
+      line = line.slice(width);
+    }
+  }
+
+  return line ? [...lines, line] : lines;
+}
+
+/**
+ * Lays out a maintenance log as a printable PDF
+ * @param vehicle - The vehicle the log belongs to
+ * @param entries - The log, oldest first
+ * @returns The PDF file contents
+ */
+export function renderHistoryPdf(
+  vehicle: HistoryVehicle,
+  entries: VehicleHistoryEntry[]
+): Buffer {
+  const lines: PdfLine[] = [
+    { text: 'Vehicle Service History', bold: true, size: 18 },
+    { text: '' },
+    { text: `Vehicle:   ${vehicle.year} ${vehicle.make} ${vehicle.model}` },
+    { text: `Plate:     ${vehicle.license_plate}` },
+    { text: `VIN:       ${vehicle.vin ?? ''}` },
+    { text: `Mileage:   ${vehicle.mileage ?? ''}` },
+    { text: `Generated: ${new Date().toISOString().slice(0, 10)}` },
+    { text: '' }
+  ];
+
+  if (entries.length === 0) {
+    lines.push({ text: 'No service history recorded.' });
+  }
+
+  for (const entry of entries) {
+    const source = entry.source === 'booking' ? 'Booked via Pickovo' : 'Logged by owner';
+
+    lines.push(
+      { text: `${entry.date}  ${entry.service_name ?? entry.service_type}`, bold: true },
+      { text: `  ${source}${entry.provider ? ` - ${entry.provider}` : ''}` }
+    );
+
+    if (entry.mileage !== null) {
+      lines.push({ text: `  Mileage: ${entry.mileage}` });
+    }
+
+    if (entry.cost !== null) {
+      lines.push({ text: `  Cost: ${entry.cost.toFixed(2)}${entry.invoice_number ? ` (invoice ${entry.invoice_number})` : ''}` });
+    }
+
+    if (entry.description) {
+      wrapText(`Notes: ${entry.description}`, 78).forEach(text => lines.push({ text: `  ${text}` }));
+    }
+
+    lines.push({ text: '' });
+  }
+
+  return renderPdf(lines);
+}
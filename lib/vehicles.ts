@@ -0,0 +1,191 @@
+import { supabase } from './supabase';
+import { decodeVin } from './vin';
+import { parseInsuranceInfo } from './insurance';
+import { v4 as uuidv4 } from 'uuid';
+
+// Vehicle fields an owner can set
+const EDITABLE_FIELDS = [
+  'make',
+  'model',
+  'year',
+  'license_plate',
+  'color',
+  'vin',
+  'mileage',
+  'insurance_info'
+] as const;
+
+// Earliest model year accepted
+const MIN_YEAR = 1886;
+
+// Bookings in these statuses are still going ahead
+export const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed', 'in_progress'];
+
+/**
+ * Validates vehicle fields from a request body
+ * Only fields present in the body are validated and returned.
+ * @param body - Request body
+ * @param current - The vehicle being updated, if any; mileage may not go below its current value
+ * @returns The fields to write, and an error message if any field is invalid
+ */
+export function parseVehicleFields(
+  body: Record<string, any>,
+  current?: { mileage?: number | null }
+): { data: Record<string, unknown>; error: string | null } {
+  const data: Record<string, unknown> = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = body[field];
+    }
+  }
+
+  for (const field of ['make', 'model', 'license_plate'] as const) {
+    if (data[field] !== undefined && (typeof data[field] !== 'string' || !(data[field] as string).trim())) {
+      return { data, error: `${field} must be a non-empty string` };
+    }
+  }
+
+  if (data.year !== undefined &&
+      (!Number.isInteger(data.year) || (data.year as number) < MIN_YEAR ||
+       (data.year as number) > new Date().getUTCFullYear() + 1)) {
+    return { data, error: `year must be a model year between ${MIN_YEAR} and next year` };
+  }
+
+  if (data.mileage !== undefined && data.mileage !== null) {
+    if (!Number.isInteger(data.mileage) || (data.mileage as number) < 0) {
+      return { data, error: 'mileage must be a non-negative integer' };
+    }
+
+    // Odometers only go up
+    if (current?.mileage !== undefined && current.mileage !== null &&
+        (data.mileage as number) < current.mileage) {
+      return { data, error: `mileage cannot be lower than the recorded ${current.mileage}` };
+    }
+  }
+
+  if (data.mileage === null && current?.mileage !== undefined && current.mileage !== null) {
+    return { data, error: 'mileage cannot be cleared once recorded' };
+  }
+
+  if (data.vin !== undefined && data.vin !== null) {
+    if (typeof data.vin !== 'string') {
+      return { data, error: 'vin must be a string' };
+    }
+
+    const decoded = decodeVin(data.vin);
+
+    if (!decoded.valid) {
+      return { data, error: `Invalid VIN: ${decoded.errors.join('; ')}` };
+    }
+
+    data.vin = decoded.vin;
+  }
+
+  if (data.insurance_info !== undefined && data.insurance_info !== null) {
+    const { data: insuranceInfo, error: insuranceError } = parseInsuranceInfo(data.insurance_info);
+
+    if (insuranceError) {
+      return { data, error: insuranceError };
+    }
+
+    data.insurance_info = insuranceInfo;
+  }
+
+  return { data, error: null };
+}
+
+function normaliseMake(make: string): string {
+  return make.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Fills in make and year from a validated VIN where neither the request nor the
+ * stored vehicle has them, and lists where the given values disagree with the VIN
+ * Mismatches are reported rather than rejected, as the offline decoding can be wrong.
+ * @param data - Fields returned by parseVehicleFields; updated in place
+ * @param current - The vehicle being updated, if any
+ * @returns Warnings describing each mismatch
+ */
+export function applyVinDecoding(
+  data: Record<string, unknown>,
+  current?: { vin?: string | null; make?: string | null; year?: number | null }
+): string[] {
+  const vin = data.vin !== undefined ? data.vin : current?.vin;
+
+  if (typeof vin !== 'string') {
+    return [];
+  }
+
+  const decoded = decodeVin(vin);
+  const make = (data.make ?? current?.make) as string | null | undefined;
+  const year = (data.year ?? current?.year) as number | null | undefined;
+  const warnings: string[] = [];
+
+  if (decoded.make) {
+    if (!make) {
+      data.make = decoded.make;
+    } else if (!normaliseMake(make).includes(normaliseMake(decoded.make)) &&
+               !normaliseMake(decoded.make).includes(normaliseMake(make))) {
+      warnings.push(`make ${make} does not match ${decoded.make} decoded from the VIN`);
+    }
+  }
+
+  if (decoded.model_year) {
+    if (!year) {
+      data.year = decoded.model_year;
+    } else if (year !== decoded.model_year) {
+      warnings.push(`year ${year} does not match model year ${decoded.model_year} decoded from the VIN`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Raises the recorded mileage of a vehicle to a newer odometer reading
+ * Readings below the recorded mileage are ignored, as odometers only go up.
+ * @param vehicleId - The vehicle
+ * @param mileage - The odometer reading
+ */
+export async function raiseVehicleMileage(vehicleId: string, mileage: number): Promise<void> {
+  const { error } = await supabase
+    .from('vehicles')
+    .update({ mileage, updated_at: new Date().toISOString() })
+    .eq('id', vehicleId)
+    .or(`mileage.is.null,mileage.lt.${mileage}`);
+
+  if (error) {
+    console.error('Error updating vehicle mileage:', error);
+  }
+}
+
+/**
+ * Records that an alert was sent for a vehicle, unless it already was
+ * @param vehicleId - The vehicle
+ * @param alertType - Kind of alert, e.g. maintenance_overdue
+ * @param alertKey - Identifies the occurrence the alert is about
+ * @returns True if the alert is new and should be sent
+ */
+export async function claimVehicleAlert(vehicleId: string, alertType: string, alertKey: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('vehicle_alerts')
+    .insert({
+      id: uuidv4(),
+      vehicle_id: vehicleId,
+      alert_type: alertType,
+      alert_key: alertKey,
+      created_at: new Date().toISOString()
+    });
+
+  // The unique index on (vehicle_id, alert_type, alert_key) means it was sent before
+  if (error && error.code === '23505') {
+    return false;
+  }
+
+  if (error) {
+    throw error;
+  }
+
+  return true;
+}
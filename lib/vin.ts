@@ -0,0 +1,144 @@
+import { WMI_TABLE } from './wmi';
+
+// 17 characters; I, O and Q are never used
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// Numeric values of VIN characters for the check digit
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year codes (10th character) in order, repeating every 30 years from 1980
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+export type VinRegion = 'Africa' | 'Asia' | 'Europe' | 'North America' | 'Oceania' | 'South America';
+
+export interface DecodedVin {
+  vin: string;
+  valid: boolean;
+  errors: string[];
+  wmi: string;
+  region: VinRegion | null;
+  manufacturer: string | null;
+  make: string | null;
+  model_year: number | null;
+  check_digit: {
+    expected: string;
+    actual: string;
+    valid: boolean;
+    required: boolean; // Only mandatory for North American VINs
+  };
+}
+
+/**
+ * Normalises a VIN as entered by a user: trims spaces and upper-cases it
+ */
+export function normalizeVin(vin: string): string {
+  return vin.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Computes the check digit (9th character) a VIN should have
+ * @param vin - A 17 character VIN in the allowed alphabet
+ */
+export function computeCheckDigit(vin: string): string {
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : TRANSLITERATION[char];
+    return total + value * POSITION_WEIGHTS[index];
+  }, 0);
+
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+function getRegion(vin: string): VinRegion | null {
+  const first = vin[0];
+
+  if (first >= 'A' && first <= 'H') return 'Africa';
+  if (first >= 'J' && first <= 'R') return 'Asia';
+  if (first >= 'S' && first <= 'Z') return 'Europe';
+  if (first >= '1' && first <= '5') return 'North America';
+  if (first === '6' || first === '7') return 'Oceania';
+  if (first === '8' || first === '9' || first === '0') return 'South America';
+
+  return null;
+}
+
+/**
+ * Works out the model year from the 10th character
+ * The code repeats every 30 years. North American VINs tell the cycles apart by the
+ * 7th character (a digit before 2010, a letter from 2010); otherwise the latest year
+ * not after next year is assumed.
+ */
+function getModelYear(vin: string, region: VinRegion | null): number | null {
+  const index = YEAR_CODES.indexOf(vin[9]);
+
+  if (index === -1) {
+    return null;
+  }
+
+  const candidates = [1980 + index, 2010 + index, 2040 + index];
+
+  if (region === 'North America') {
+    return /\d/.test(vin[6]) ? candidates[0] : candidates[1];
+  }
+
+  const latest = new Date().getUTCFullYear() + 1;
+  return candidates.filter(year => year <= latest).pop() ?? null;
+}
+
+/**
+ * Validates a VIN and decodes what can be derived offline
+ * @param input - The VIN as entered
+ * @returns The decoded VIN; `valid` is false with `errors` explaining why if it is malformed
+ */
+export function decodeVin(input: string): DecodedVin {
+  const vin = normalizeVin(input);
+  const errors: string[] = [];
+
+  if (vin.length !== 17) {
+    errors.push('VIN must be 17 characters long');
+  }
+
+  if (/[IOQ]/.test(vin)) {
+    errors.push('VIN cannot contain the letters I, O or Q');
+  }
+
+  if (!/^[A-Z0-9]*$/.test(vin)) {
+    errors.push('VIN can only contain letters and digits');
+  }
+
+  const wellFormed = VIN_PATTERN.test(vin);
+  const region = wellFormed ? getRegion(vin) : null;
+  const expected = wellFormed ? computeCheckDigit(vin) : '';
+  const actual = vin[8] ?? '';
+  const required = region === 'North America';
+
+  if (wellFormed && required && expected !== actual) {
+    errors.push(`VIN check digit is ${actual} but should be ${expected}`);
+  }
+
+  const wmi = vin.slice(0, 3);
+  const manufacturer = wellFormed ? WMI_TABLE[wmi] : undefined;
+
+  return {
+    vin,
+    valid: errors.length === 0,
+    errors,
+    wmi,
+    region,
+    manufacturer: manufacturer?.manufacturer ?? null,
+    make: manufacturer?.make ?? null,
+    model_year: wellFormed ? getModelYear(vin, region) : null,
+    check_digit: {
+      expected,
+      actual,
+      valid: wellFormed && expected === actual,
+      required
+    }
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * World Manufacturer Identifiers (first three VIN characters) of common makes
+ * Offline subset; VINs with an unlisted WMI still decode their region and year.
+ */
+export const WMI_TABLE: Record<string, { manufacturer: string; make: string }> = {
+  // North America
+  '1C3': { manufacturer: 'Chrysler', make: 'Chrysler' },
+  '1C4': { manufacturer: 'Chrysler', make: 'Jeep' },
+  '1C6': { manufacturer: 'Chrysler', make: 'Ram' },
+  '1FA': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FM': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1FT': { manufacturer: 'Ford Motor Company', make: 'Ford' },
+  '1G1': { manufacturer: 'General Motors', make: 'Chevrolet' },
+  '1GC': { manufacturer: 'General Motors', make: 'Chevrolet' },
+  '1GN': { manufacturer: 'General Motors', make: 'Chevrolet' },
+  '1GT': { manufacturer: 'General Motors', make: 'GMC' },
+  '1G6': { manufacturer: 'General Motors', make: 'Cadillac' },
+  '1GY': { manufacturer: 'General Motors', make: 'Cadillac' },
+  '1HG': { manufacturer: 'Honda of America', make: 'Honda' },
+  '1J4': { manufacturer: 'Chrysler', make: 'Jeep' },
+  '1LN': { manufacturer: 'Ford Motor Company', make: 'Lincoln' },
+  '1N4': { manufacturer: 'Nissan North America', make: 'Nissan' },
+  '1N6': { manufacturer: 'Nissan North America', make: 'Nissan' },
+  '1VW': { manufacturer: 'Volkswagen of America', make: 'Volkswagen' },
+  '19U': { manufacturer: 'Honda of America', make: 'Acura' },
+  '2C3': { manufacturer: 'Chrysler Canada', make: 'Chrysler' },
+  '2FA': { manufacturer: 'Ford Motor Company of Canada', make: 'Ford' },
+  '2G1': { manufacturer: 'General Motors of Canada', make: 'Chevrolet' },
+  '2HG': { manufacturer: 'Honda of Canada', make: 'Honda' },
+  '2HK': { manufacturer: 'Honda of Canada', make: 'Honda' },
+  '2T1': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Toyota' },
+  '2T3': { manufacturer: 'Toyota Motor Manufacturing Canada', make: 'Toyota' },
+  '3FA': { manufacturer: 'Ford Motor Company of Mexico', make: 'Ford' },
+  '3G1': { manufacturer: 'General Motors de Mexico', make: 'Chevrolet' },
+  '3HG': { manufacturer: 'Honda de Mexico', make: 'Honda' },
+  '3N1': { manufacturer: 'Nissan Mexicana', make: 'Nissan' },
+  '3VW': { manufacturer: 'Volkswagen de Mexico', make: 'Volkswagen' },
+  '4S3': { manufacturer: 'Subaru of Indiana', make: 'Subaru' },
+  '4T1': { manufacturer: 'Toyota Motor Manufacturing Kentucky', make: 'Toyota' },
+  '4T3': { manufacturer: 'Toyota Motor Manufacturing Kentucky', make: 'Toyota' },
+  '5FN': { manufacturer: 'Honda Manufacturing of Alabama', make: 'Honda' },
+  '5J6': { manufacturer: 'Honda of America', make: 'Honda' },
+  '5N1': { manufacturer: 'Nissan North America', make: 'Nissan' },
+  '5NP': { manufacturer: 'Hyundai Motor Manufacturing Alabama', make: 'Hyundai' },
+  '5TD': { manufacturer: 'Toyota Motor Manufacturing Indiana', make: 'Toyota' },
+  '5YJ': { manufacturer: 'Tesla', make: 'Tesla' },
+  '5UX': { manufacturer: 'BMW Manufacturing', make: 'BMW' },
+  // Asia
+  'JA3': { manufacturer: 'Mitsubishi Motors', make: 'Mitsubishi' },
+  'JF1': { manufacturer: 'Subaru', make: 'Subaru' },
+  'JF2': { manufacturer: 'Subaru', make: 'Subaru' },
+  'JHM': { manufacturer: 'Honda', make: 'Honda' },
+  'JM1': { manufacturer: 'Mazda', make: 'Mazda' },
+  'JN1': { manufacturer: 'Nissan', make: 'Nissan' },
+  'JN8': { manufacturer: 'Nissan', make: 'Nissan' },
+  'JS3': { manufacturer: 'Suzuki', make: 'Suzuki' },
+  'JT2': { manufacturer: 'Toyota', make: 'Toyota' },
+  'JTD': { manufacturer: 'Toyota', make: 'Toyota' },
+  'JTE': { manufacturer: 'Toyota', make: 'Toyota' },
+  'JTH': { manufacturer: 'Toyota', make: 'Lexus' },
+  'JTJ': { manufacturer: 'Toyota', make: 'Lexus' },
+  'KL1': { manufacturer: 'GM Korea', make: 'Chevrolet' },
+  'KMH': { manufacturer: 'Hyundai', make: 'Hyundai' },
+  'KNA': { manufacturer: 'Kia', make: 'Kia' },
+  'KND': { manufacturer: 'Kia', make: 'Kia' },
+  'LFV': { manufacturer: 'FAW-Volkswagen', make: 'Volkswagen' },
+  'LRW': { manufacturer: 'Tesla Shanghai', make: 'Tesla' },
+  'LSV': { manufacturer: 'SAIC Volkswagen', make: 'Volkswagen' },
+  'MA1': { manufacturer: 'Mahindra', make: 'Mahindra' },
+  'MAL': { manufacturer: 'Hyundai Motor India', make: 'Hyundai' },
+  'MR0': { manufacturer: 'Toyota Motor Thailand', make: 'Toyota' },
+  // Europe
+  'SAJ': { manufacturer: 'Jaguar Land Rover', make: 'Jaguar' },
+  'SAL': { manufacturer: 'Jaguar Land Rover', make: 'Land Rover' },
+  'SCC': { manufacturer: 'Lotus', make: 'Lotus' },
+  'SJN': { manufacturer: 'Nissan Motor Manufacturing UK', make: 'Nissan' },
+  'TMB': { manufacturer: 'Skoda', make: 'Skoda' },
+  'TRU': { manufacturer: 'Audi Hungaria', make: 'Audi' },
+  'VF1': { manufacturer: 'Renault', make: 'Renault' },
+  'VF3': { manufacturer: 'Peugeot', make: 'Peugeot' },
+  'VF7': { manufacturer: 'Citroen', make: 'Citroen' },
+  'VSS': { manufacturer: 'SEAT', make: 'SEAT' },
+  'WAU': { manufacturer: 'Audi', make: 'Audi' },
+  'WA1': { manufacturer: 'Audi', make: 'Audi' },
+  'WBA': { manufacturer: 'BMW', make: 'BMW' },
+  'WBS': { manufacturer: 'BMW M', make: 'BMW' },
+  'WDB': { manufacturer: 'Mercedes-Benz', make: 'Mercedes-Benz' },
+  'WDD': { manufacturer: 'Mercedes-Benz', make: 'Mercedes-Benz' },
+  'WDC': { manufacturer: 'Mercedes-Benz', make: 'Mercedes-Benz' },
+  'WMW': { manufacturer: 'MINI', make: 'MINI' },
+  'WP0': { manufacturer: 'Porsche', make: 'Porsche' },
+  'WP1': { manufacturer: 'Porsche', make: 'Porsche' },
+  'WVW': { manufacturer: 'Volkswagen', make: 'Volkswagen' },
+  'WVG': { manufacturer: 'Volkswagen', make: 'Volkswagen' },
+  'W0L': { manufacturer: 'Opel', make: 'Opel' },
+  'YV1': { manufacturer: 'Volvo Cars', make: 'Volvo' },
+  'YV4': { manufacturer: 'Volvo Cars', make: 'Volvo' },
+  'ZAR': { manufacturer: 'Alfa Romeo', make: 'Alfa Romeo' },
+  'ZFA': { manufacturer: 'Fiat', make: 'Fiat' },
+  'ZFF': { manufacturer: 'Ferrari', make: 'Ferrari' },
+  // Africa and Oceania
+  'AAV': { manufacturer: 'Volkswagen South Africa', make: 'Volkswagen' },
+  'AHT': { manufacturer: 'Toyota South Africa', make: 'Toyota' },
+  '6G1': { manufacturer: 'General Motors Holden', make: 'Holden' },
+  '6T1': { manufacturer: 'Toyota Motor Corporation Australia', make: 'Toyota' },
+  // South America
+  '8AP': { manufacturer: 'Fiat Argentina', make: 'Fiat' },
+  '9BW': { manufacturer: 'Volkswagen do Brasil', make: 'Volkswagen' },
+  '9BG': { manufacturer: 'General Motors do Brasil', make: 'Chevrolet' }
+};
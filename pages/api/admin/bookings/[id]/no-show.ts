@@ -0,0 +1,74 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../../lib/supabase';
+import { isAdmin, withAuth } from '../../../../../utils/auth';
+import { withIdempotency } from '../../../../../lib/idempotency';
+import { BookingActor } from '../../../../../lib/booking-events';
+import { BOOKING_STATE_COLUMNS, transitionBooking } from '../../../../../lib/booking-state-machine';
+import { NO_SHOW_PARTIES } from '../../../../../lib/cancellation';
+
+/**
+ * API endpoint for administrators to confirm a booking flagged as a no-show
+ * The booking is cancelled and the party who did not show up is charged under the
+ * cancellation policy: the late fee for a customer, the mechanic penalty for a mechanic.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+
+  try {
+    if (!(await isAdmin(userId))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const { party, reason } = req.body;
+
+    if (!NO_SHOW_PARTIES.includes(party)) {
+      return res.status(400).json({ error: `party must be one of: ${NO_SHOW_PARTIES.join(', ')}` });
+    }
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select(`${BOOKING_STATE_COLUMNS}, no_show_flagged_at`)
+      .eq('id', id)
+      .single();
+
+    if (bookingError || !booking) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    // Only bookings the scheduled job flagged, and that are still waiting on support
+    if (booking.status !== 'confirmed' || !booking.no_show_flagged_at) {
+      return res.status(400).json({ error: 'Only confirmed bookings flagged as a no-show can be confirmed as one' });
+    }
+
+    const actor: BookingActor = { id: userId, role: 'admin' };
+    const { data, error } = await transitionBooking(booking, 'cancelled', actor, {
+      reason: reason ?? `The ${party} did not show up`,
+      noShow: party
+    });
+
+    if (error || !data) {
+      return res.status(error?.status ?? 500).json({ error: error?.message });
+    }
+
+    return res.status(200).json({ ...data.booking, cancellation: data.cancellation });
+  } catch (error) {
+    console.error('Error in admin booking no-show endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler));
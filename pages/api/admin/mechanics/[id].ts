@@ -0,0 +1,104 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { isAdmin, withAuth } from '../../../../utils/auth';
+import { createNotification } from '../../../../lib/notifications';
+
+/**
+ * API endpoint for administrators to approve or reject a mechanic application
+ * Approval makes the applicant's profile a mechanic and opens them for bookings.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Mechanic ID from the URL
+  
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid mechanic ID' });
+  }
+
+  try {
+    if (!(await isAdmin(userId))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const { action, reason } = req.body;
+    
+    if (action !== 'approve' && action !== 'reject') {
+      return res.status(400).json({ error: 'action must be either "approve" or "reject"' });
+    }
+    
+    const { data: mechanic, error: mechanicError } = await supabase
+      .from('mechanics')
+      .select('id, approval_status')
+      .eq('id', id)
+      .single();
+    
+    if (mechanicError || !mechanic) {
+      return res.status(404).json({ error: 'Mechanic not found' });
+    }
+    
+    if (mechanic.approval_status !== 'pending') {
+      return res.status(400).json({ 
+        error: `Cannot ${action} an application with status: ${mechanic.approval_status}` 
+      });
+    }
+    
+    const approved = action === 'approve';
+    
+    // The applicant's profile becomes a mechanic account on approval
+    if (approved) {
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({ role: 'mechanic', updated_at: new Date().toISOString() })
+        .eq('id', id);
+      
+      if (profileError) {
+        console.error('Error updating profile role:', profileError);
+        return res.status(500).json({ error: 'Failed to update profile role' });
+      }
+    }
+    
+    const { data, error } = await supabase
+      .from('mechanics')
+      .update({
+        approval_status: approved ? 'approved' : 'rejected',
+        rejection_reason: approved ? null : reason ?? null,
+        approved_at: approved ? new Date().toISOString() : null,
+        is_available: approved,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating mechanic application:', error);
+      return res.status(500).json({ error: 'Failed to update mechanic application' });
+    }
+    
+    await createNotification({
+      userId: id,
+      type: approved ? 'mechanic_application_approved' : 'mechanic_application_rejected',
+      title: approved ? 'Application Approved' : 'Application Rejected',
+      message: approved
+        ? 'Your mechanic application has been approved. You can now receive bookings.'
+        : `Your mechanic application has been rejected.${reason ? ` Reason: ${reason}` : ''}`,
+      relatedId: id
+    });
+    
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error('Error in admin mechanic endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
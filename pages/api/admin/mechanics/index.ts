@@ -0,0 +1,70 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { isAdmin, withAuth } from '../../../../utils/auth';
+
+/**
+ * API endpoint for administrators to review mechanic applications
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!(await isAdmin(userId))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const { approval_status = 'pending', limit = 20, offset = 0 } = req.query;
+    
+    const { data, error, count } = await supabase
+      .from('mechanics')
+      .select('*', { count: 'exact' })
+      .eq('approval_status', approval_status)
+      .order('created_at', { ascending: true })
+      .range(
+        Number(offset), 
+        Number(offset) + Number(limit) - 1
+      );
+    
+    if (error) {
+      console.error('Error fetching mechanic applications:', error);
+      return res.status(500).json({ error: 'Failed to fetch mechanic applications' });
+    }
+    
+    // Attach the applicants' account details
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, email, first_name, last_name, phone_number')
+      .in('id', data.map(mechanic => mechanic.id));
+    
+    if (profilesError) {
+      console.error('Error fetching applicant profiles:', profilesError);
+      return res.status(500).json({ error: 'Failed to fetch mechanic applications' });
+    }
+    
+    return res.status(200).json({
+      data: data.map(mechanic => ({
+        ...mechanic,
+        profile: profiles.find(profile => profile.id === mechanic.id) ?? null
+      })),
+      pagination: {
+        total: count ?? 0,
+        offset: Number(offset),
+        limit: Number(limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error in admin mechanics endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
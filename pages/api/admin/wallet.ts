@@ -0,0 +1,97 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { isAdmin, withAuth } from '../../../utils/auth';
+import { isDuplicateReferenceError, isInsufficientFundsError } from '../../../lib/payments';
+import { v4 as uuidv4 } from 'uuid';
+
+// Privileged wallet operations and the direction each one moves money
+const OPERATIONS: Record<string, { type?: 'credit' | 'debit'; description: string }> = {
+  adjustment: { description: 'Balance adjustment' },
+  refund: { type: 'credit', description: 'Refund' },
+  payout: { type: 'debit', description: 'Payout' }
+};
+
+/**
+ * API endpoint for administrators to adjust, refund or pay out any wallet
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!(await isAdmin(userId as string))) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+    
+    const { user_id, operation, type, amount, description, reference_id } = req.body;
+    
+    // Validate required fields
+    if (!user_id || !operation || !amount) {
+      return res.status(400).json({ 
+        error: 'Missing required fields: user_id, operation and amount are required' 
+      });
+    }
+    
+    const config = OPERATIONS[operation];
+    
+    if (!config) {
+      return res.status(400).json({ 
+        error: `operation must be one of: ${Object.keys(OPERATIONS).join(', ')}` 
+      });
+    }
+    
+    // Adjustments can go either way, so the caller picks the direction
+    const transactionType = config.type ?? type;
+    
+    if (transactionType !== 'credit' && transactionType !== 'debit') {
+      return res.status(400).json({ 
+        error: 'Type must be either "credit" or "debit" for adjustments' 
+      });
+    }
+    
+    // Validate amount
+    const numAmount = Number(amount);
+    if (isNaN(numAmount) || numAmount <= 0) {
+      return res.status(400).json({ 
+        error: 'Amount must be a positive number' 
+      });
+    }
+    
+    const { data, error } = await supabase.rpc('update_wallet_balance', {
+      p_user_id: user_id,
+      p_amount: numAmount,
+      p_type: transactionType,
+      p_description: description || config.description,
+      p_reference_id: reference_id || uuidv4()
+    });
+    
+    if (error) {
+      console.error('Error updating wallet:', error);
+      
+      if (isInsufficientFundsError(error)) {
+        return res.status(400).json({ error: 'Insufficient funds' });
+      }
+      
+      if (isDuplicateReferenceError(error)) {
+        return res.status(409).json({ error: 'A transaction with this reference_id already exists' });
+      }
+      
+      return res.status(500).json({ error: 'Failed to update wallet' });
+    }
+    
+    return res.status(200).json({ ...data, operation });
+  } catch (error) {
+    console.error('Error in admin wallet endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
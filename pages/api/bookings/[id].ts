@@ -1,6 +1,10 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../../lib/supabase';
 import { withAuth } from '../../../utils/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { BookingActor, recordBookingChanges } from '../../../lib/booking-events';
+import { BOOKING_STATE_COLUMNS, getAllowedTransitions, transitionBooking } from '../../../lib/booking-state-machine';
+import { raiseVehicleMileage } from '../../../lib/vehicles';
 
 /**
  * API endpoint to manage a specific booking by ID
@@ -19,7 +23,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Check if the user has access to this booking
   const { data: booking, error: bookingError } = await supabase
     .from('bookings')
-    .select('customer_id, mechanic_id, status')
+    .select(`${BOOKING_STATE_COLUMNS}, vehicle_id`)
     .eq('id', id)
     .single();
   
@@ -31,6 +35,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Check if the user is authorized to access this booking
   const isCustomer = booking.customer_id === userId;
   const isMechanic = booking.mechanic_id === userId;
+  const actor: BookingActor = { id: userId as string, role: isCustomer ? 'customer' : 'mechanic' };
   
   if (!isCustomer && !isMechanic) {
     return res.status(403).json({ error: 'Not authorized to access this booking' });
@@ -55,7 +60,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         return res.status(500).json({ error: 'Failed to fetch booking details' });
       }
       
-      return res.status(200).json(data);
+      return res.status(200).json({
+        ...data,
+        allowed_transitions: getAllowedTransitions(data.status, actor.role)
+      });
     } catch (error) {
       console.error('Error in booking GET endpoint:', error);
       return res.status(500).json({ error: 'Internal server error' });
@@ -65,41 +73,56 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Handle PATCH request - Update booking status
   if (req.method === 'PATCH') {
     try {
-      const { status, notes, total_amount } = req.body;
+      const { status, notes, total_amount, cancellation_reason, mileage_at_service } = req.body;
+      
+      // The amount charged comes from the quote the customer approved
+      if (total_amount !== undefined) {
+        return res.status(400).json({ 
+          error: 'total_amount is set by approving a quote; submit one via /api/bookings/[id]/quotes' 
+        });
+      }
+      
+      // Build the update object
+      const updateData: Record<string, unknown> = {};
+      
+      if (notes !== undefined) updateData.notes = notes;
+      
+      // The mechanic records the odometer reading for the vehicle's service history
+      if (mileage_at_service !== undefined) {
+        if (!isMechanic) {
+          return res.status(403).json({ error: 'Only the mechanic can record mileage_at_service' });
+        }
+        
+        if (!Number.isInteger(mileage_at_service) || mileage_at_service < 0) {
+          return res.status(400).json({ error: 'mileage_at_service must be a non-negative integer' });
+        }
+        
+        updateData.mileage_at_service = mileage_at_service;
+      }
       
-      // Validate the status transition
+      // Status changes go through the booking state machine
       if (status) {
-        const validTransitions: Record<string, string[]> = {
-          'pending': ['confirmed', 'cancelled'],
-          'confirmed': ['in_progress', 'cancelled'],
-          'in_progress': ['completed', 'cancelled'],
-          'completed': [],
-          'cancelled': []
-        };
+        const { data, error } = await transitionBooking(booking, status, actor, {
+          reason: cancellation_reason,
+          updates: updateData
+        });
         
-        if (!validTransitions[booking.status].includes(status)) {
-          return res.status(400).json({ 
-            error: `Invalid status transition from ${booking.status} to ${status}` 
-          });
+        if (error || !data) {
+          return res.status(error?.status ?? 500).json({ error: error?.message });
         }
         
-        // Check if the user is authorized to make this status change
-        if (status === 'confirmed' || status === 'in_progress' || status === 'completed') {
-          // Only mechanics can confirm, start, or complete bookings
-          if (!isMechanic) {
-            return res.status(403).json({ 
-              error: 'Only mechanics can confirm, start, or complete bookings' 
-            });
-          }
+        const { booking: updated, ...outcome } = data;
+        
+        if (updateData.mileage_at_service !== undefined) {
+          await raiseVehicleMileage(booking.vehicle_id, mileage_at_service);
         }
+        
+        return res.status(200).json({ ...updated, ...outcome });
       }
       
-      // Build the update object
-      const updateData: any = {};
-      
-      if (status) updateData.status = status;
-      if (notes !== undefined) updateData.notes = notes;
-      if (total_amount !== undefined && isMechanic) updateData.total_amount = total_amount;
+      if (Object.keys(updateData).length === 0) {
+        return res.status(400).json({ error: 'Nothing to update: provide status, notes or mileage_at_service' });
+      }
       
       updateData.updated_at = new Date().toISOString();
       
@@ -116,44 +139,10 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         return res.status(500).json({ error: 'Failed to update booking' });
       }
       
-      // Create a notification for the other party
-      const notificationRecipient = isCustomer ? booking.mechanic_id : booking.customer_id;
-      let notificationTitle = '';
-      let notificationMessage = '';
+      await recordBookingChanges(id, actor, booking, data);
       
-      if (status) {
-        switch (status) {
-          case 'confirmed':
-            notificationTitle = 'Booking Confirmed';
-            notificationMessage = 'Your booking has been confirmed by the mechanic.';
-            break;
-          case 'in_progress':
-            notificationTitle = 'Repair Started';
-            notificationMessage = 'Work on your vehicle has begun.';
-            break;
-          case 'completed':
-            notificationTitle = 'Repair Completed';
-            notificationMessage = 'Your vehicle repair has been completed.';
-            break;
-          case 'cancelled':
-            notificationTitle = 'Booking Cancelled';
-            notificationMessage = `Your booking has been cancelled by the ${isCustomer ? 'customer' : 'mechanic'}.`;
-            break;
-        }
-        
-        if (notificationTitle) {
-          await supabase
-            .from('notifications')
-            .insert({
-              user_id: notificationRecipient,
-              type: `booking_${status}`,
-              title: notificationTitle,
-              message: notificationMessage,
-              related_id: id,
-              is_read: false,
-              created_at: new Date().toISOString()
-            });
-        }
+      if (updateData.mileage_at_service !== undefined) {
+        await raiseVehicleMileage(booking.vehicle_id, mileage_at_service);
       }
       
       return res.status(200).json(data);
@@ -166,45 +155,17 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Handle DELETE request - Cancel booking
   if (req.method === 'DELETE') {
     try {
-      // Only allow cancellation if the booking is pending or confirmed
-      if (booking.status !== 'pending' && booking.status !== 'confirmed') {
-        return res.status(400).json({ 
-          error: `Cannot cancel a booking with status: ${booking.status}` 
-        });
-      }
-      
-      // Update the booking status to cancelled
-      const { data, error } = await supabase
-        .from('bookings')
-        .update({
-          status: 'cancelled',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
-        .select()
-        .single();
-      
-      if (error) {
-        console.error('Error cancelling booking:', error);
-        return res.status(500).json({ error: 'Failed to cancel booking' });
+      // Cancel the booking under the applicable cancellation policy
+      const { cancellation_reason } = req.body ?? {};
+      const { data, error } = await transitionBooking(booking, 'cancelled', actor, {
+        reason: cancellation_reason
+      });
+      
+      if (error || !data) {
+        return res.status(error?.status ?? 500).json({ error: error?.message });
       }
       
-      // Create a notification for the other party
-      const notificationRecipient = isCustomer ? booking.mechanic_id : booking.customer_id;
-      
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: notificationRecipient,
-          type: 'booking_cancelled',
-          title: 'Booking Cancelled',
-          message: `Your booking has been cancelled by the ${isCustomer ? 'customer' : 'mechanic'}.`,
-          related_id: id,
-          is_read: false,
-          created_at: new Date().toISOString()
-        });
-      
-      return res.status(200).json(data);
+      return res.status(200).json({ ...data.booking, cancellation: data.cancellation });
     } catch (error) {
       console.error('Error in booking DELETE endpoint:', error);
       return res.status(500).json({ error: 'Internal server error' });
@@ -215,5 +176,5 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   return res.status(405).json({ error: 'Method not allowed' });
 }
 
-// Wrap the handler with authentication middleware
-export default withAuth(handler);
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler, ['PATCH']));
@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { getBookingInvoice, issueBookingInvoice, renderInvoicePdf } from '../../../../lib/invoices';
+
+/**
+ * API endpoint to get the invoice of a completed booking
+ * Returns JSON by default, or a PDF document with ?format=pdf.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id, format = 'json' } = req.query; // Booking ID from the URL
+  
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+  
+  if (format !== 'json' && format !== 'pdf') {
+    return res.status(400).json({ error: 'format must be either "json" or "pdf"' });
+  }
+
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('customer_id, mechanic_id, status')
+      .eq('id', id)
+      .single();
+    
+    if (bookingError || !booking) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+    
+    if (booking.customer_id !== userId && booking.mechanic_id !== userId) {
+      return res.status(403).json({ error: 'Not authorized to access this booking' });
+    }
+    
+    if (booking.status !== 'completed') {
+      return res.status(404).json({ error: 'Invoices are issued once a booking is completed' });
+    }
+    
+    // Issue the invoice now if it was not issued at completion
+    const invoice = await getBookingInvoice(id) ?? await issueBookingInvoice(id);
+    
+    if (format === 'pdf') {
+      const pdf = renderInvoicePdf(invoice);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${invoice.invoice_number}.pdf"`);
+      res.setHeader('Content-Length', pdf.length);
+      return res.status(200).send(pdf);
+    }
+    
+    return res.status(200).json(invoice);
+  } catch (error) {
+    console.error('Error in booking invoice endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,98 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { settleBookingPayment } from '../../../../lib/payments';
+import { chargeCancellationFees, chargeMechanicPenalty } from '../../../../lib/cancellation';
+
+/**
+ * API endpoint to retry the wallet payment of a completed booking, or the
+ * cancellation fee of a cancelled one, whose settlement failed
+ * The mechanic of a cancelled booking uses it to pay a penalty they still owe.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('id, customer_id, mechanic_id, status, payment_status, mechanic_penalty, mechanic_penalty_paid_at')
+      .eq('id', id)
+      .single();
+
+    if (bookingError || !booking) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    // The mechanic only pays an owed cancellation penalty
+    if (booking.mechanic_id === userId) {
+      if (booking.status !== 'cancelled' || !(Number(booking.mechanic_penalty) > 0) || booking.mechanic_penalty_paid_at) {
+        return res.status(400).json({ error: 'This booking has no penalty to pay' });
+      }
+
+      const collected = await chargeMechanicPenalty({ ...booking, mechanic_penalty: Number(booking.mechanic_penalty) });
+
+      if (!collected) {
+        return res.status(400).json({ error: 'Insufficient funds' });
+      }
+
+      return res.status(200).json({ mechanic_penalty: Number(booking.mechanic_penalty), paid: true });
+    }
+
+    // Otherwise only the customer pays for a booking
+    if (booking.customer_id !== userId) {
+      return res.status(403).json({ error: 'Only the customer can pay for this booking' });
+    }
+
+    if (booking.payment_status !== 'payment_pending' ||
+        (booking.status !== 'completed' && booking.status !== 'cancelled')) {
+      return res.status(400).json({ error: 'This booking has no pending payment' });
+    }
+
+    // Cancelled bookings owe their cancellation fee rather than the full amount
+    if (booking.status === 'cancelled') {
+      const paymentStatus = await chargeCancellationFees(id);
+
+      if (paymentStatus === 'payment_pending') {
+        return res.status(400).json({
+          error: 'Insufficient funds',
+          payment_status: paymentStatus
+        });
+      }
+
+      return res.status(200).json({ payment_status: paymentStatus });
+    }
+
+    const payment = await settleBookingPayment(booking);
+
+    if (payment.status === 'payment_pending') {
+      return res.status(400).json({
+        error: 'Insufficient funds',
+        payment_status: payment.status
+      });
+    }
+
+    return res.status(200).json({
+      payment_status: payment.status,
+      settlement: payment.settlement
+    });
+  } catch (error) {
+    console.error('Error in booking pay endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
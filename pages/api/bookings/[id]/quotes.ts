@@ -0,0 +1,131 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { createNotification } from '../../../../lib/notifications';
+import { parseQuote, QUOTE_COLUMNS, submitQuote } from '../../../../lib/quotes';
+import { BookingStatus, SCHEDULABLE_STATUSES } from '../../../../lib/booking-state-machine';
+
+/**
+ * API endpoint to list and submit the quotes of a booking
+ * The mechanic quotes the work as line items; the customer answers through /api/quotes/[id].
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+  
+  // Check if the user has access to this booking
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('customer_id, mechanic_id, status')
+    .eq('id', id)
+    .single();
+  
+  if (bookingError || !booking) {
+    return res.status(404).json({ error: 'Booking not found' });
+  }
+  
+  if (booking.customer_id !== userId && booking.mechanic_id !== userId) {
+    return res.status(403).json({ error: 'Not authorized to access this booking' });
+  }
+  
+  // Handle GET request - List quotes, newest first
+  if (req.method === 'GET') {
+    try {
+      const { data, error } = await supabase
+        .from('booking_quotes')
+        .select(QUOTE_COLUMNS)
+        .eq('booking_id', id)
+        .order('created_at', { ascending: false })
+        .order('position', { referencedTable: 'booking_quote_items' });
+      
+      if (error) {
+        console.error('Error fetching quotes:', error);
+        return res.status(500).json({ error: 'Failed to fetch quotes' });
+      }
+      
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in booking quotes GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle POST request - Submit a quote
+  if (req.method === 'POST') {
+    try {
+      if (booking.mechanic_id !== userId) {
+        return res.status(403).json({ error: 'Only the mechanic can quote this booking' });
+      }
+      
+      // Work is quoted before it starts
+      if (!SCHEDULABLE_STATUSES.includes(booking.status as BookingStatus)) {
+        return res.status(400).json({ 
+          error: `Cannot quote a booking with status: ${booking.status}` 
+        });
+      }
+      
+      const { data: draft, error: validationError } = parseQuote(req.body);
+      
+      if (validationError || !draft) {
+        return res.status(400).json({ error: validationError });
+      }
+      
+      // An approved quote is final
+      const { data: approved, error: approvedError } = await supabase
+        .from('booking_quotes')
+        .select('id')
+        .eq('booking_id', id)
+        .eq('status', 'approved')
+        .maybeSingle();
+      
+      if (approvedError) {
+        console.error('Error fetching approved quote:', approvedError);
+        return res.status(500).json({ error: 'Failed to submit quote' });
+      }
+      
+      if (approved) {
+        return res.status(409).json({ error: 'The customer has already approved a quote for this booking' });
+      }
+      
+      let quote;
+      
+      try {
+        quote = await submitQuote({ id, mechanic_id: booking.mechanic_id }, draft);
+      } catch (submitError: any) {
+        // The unique index on pending quotes catches concurrent submissions
+        if (submitError?.code === '23505') {
+          return res.status(409).json({ error: 'Another quote was submitted at the same time' });
+        }
+        
+        throw submitError;
+      }
+      
+      await createNotification({
+        userId: booking.customer_id,
+        type: 'quote_submitted',
+        title: 'New Quote',
+        message: `Your mechanic sent a quote of ${draft.total.toFixed(2)} for your booking. Please review it.`,
+        relatedId: id
+      });
+      
+      return res.status(201).json(quote);
+    } catch (error) {
+      console.error('Error in booking quotes POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler));
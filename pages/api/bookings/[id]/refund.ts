@@ -0,0 +1,114 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { isAdmin, withAuth } from '../../../../utils/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { createNotification } from '../../../../lib/notifications';
+import {
+  isInsufficientFundsError,
+  isRefundLimitError,
+  refundBooking
+} from '../../../../lib/payments';
+
+/**
+ * API endpoint to refund a booking payment into the customer's wallet
+ * Mechanics refund from their own earnings; admins may choose whether the
+ * mechanic or the platform covers the refund.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+  
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+
+  try {
+    const { amount, reason, charge_mechanic = true } = req.body;
+    
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('customer_id, mechanic_id')
+      .eq('id', id)
+      .single();
+    
+    if (bookingError || !booking) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+    
+    // Only the booking's mechanic or an admin can issue refunds
+    const isMechanic = booking.mechanic_id === userId;
+    const isAdminUser = !isMechanic && await isAdmin(userId);
+    
+    if (!isMechanic && !isAdminUser) {
+      return res.status(403).json({ error: 'Only the mechanic or an admin can refund this booking' });
+    }
+    
+    // Validate amount; omitting it refunds everything that is left
+    const numAmount = amount === undefined || amount === null ? undefined : Number(amount);
+    if (numAmount !== undefined && (isNaN(numAmount) || numAmount <= 0)) {
+      return res.status(400).json({ 
+        error: 'Amount must be a positive number' 
+      });
+    }
+    
+    // Admins can choose whether the mechanic or the platform covers the refund
+    if (charge_mechanic !== undefined && typeof charge_mechanic !== 'boolean') {
+      return res.status(400).json({ error: 'charge_mechanic must be a boolean' });
+    }
+    
+    let refund;
+    try {
+      refund = await refundBooking(id, {
+        amount: numAmount,
+        reason,
+        initiatedBy: userId,
+        chargeMechanic: isMechanic || charge_mechanic !== false
+      });
+    } catch (refundError: any) {
+      if (isRefundLimitError(refundError)) {
+        return res.status(400).json({ error: refundError.message });
+      }
+      
+      if (isInsufficientFundsError(refundError)) {
+        return res.status(400).json({ error: 'Mechanic has insufficient funds to cover this refund' });
+      }
+      
+      throw refundError;
+    }
+    
+    // Let both parties know
+    await createNotification({
+      userId: booking.customer_id,
+      type: 'booking_refunded',
+      title: 'Refund Issued',
+      message: `A refund of ${refund.amount} has been credited to your wallet.`,
+      relatedId: id
+    });
+    
+    await createNotification({
+      userId: booking.mechanic_id,
+      type: 'booking_refunded',
+      title: 'Refund Issued',
+      message: refund.mechanic_transaction
+        ? `A refund of ${refund.amount} for your booking has been deducted from your wallet.`
+        : `A refund of ${refund.amount} has been issued to the customer of your booking.`,
+      relatedId: id
+    });
+    
+    return res.status(201).json(refund);
+  } catch (error) {
+    console.error('Error in booking refund endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler));
@@ -0,0 +1,357 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { withIdempotency } from '../../../../lib/idempotency';
+import { createNotification } from '../../../../lib/notifications';
+import { checkSlot, isBookingOverlapError, parseAvailabilityHours, SLOT_DURATION_MINUTES } from '../../../../lib/availability';
+import { recordBookingChanges } from '../../../../lib/booking-events';
+import { BookingStatus, SCHEDULABLE_STATUSES } from '../../../../lib/booking-state-machine';
+import { v4 as uuidv4 } from 'uuid';
+
+const ACTIONS = ['propose', 'accept', 'reject', 'counter'];
+
+/**
+ * API endpoint to reschedule a booking
+ * Either party proposes a new time; the other accepts, rejects or counter-proposes.
+ * Every proposal is kept as history.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+
+  // Check if the user has access to this booking
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('customer_id, mechanic_id, status, scheduled_time, duration_minutes, notes, total_amount')
+    .eq('id', id)
+    .single();
+
+  if (bookingError || !booking) {
+    return res.status(404).json({ error: 'Booking not found' });
+  }
+
+  const isCustomer = booking.customer_id === userId;
+  const isMechanic = booking.mechanic_id === userId;
+
+  if (!isCustomer && !isMechanic) {
+    return res.status(403).json({ error: 'Not authorized to access this booking' });
+  }
+
+  // Handle GET request - List the proposal history
+  if (req.method === 'GET') {
+    try {
+      const { data, error } = await supabase
+        .from('booking_reschedules')
+        .select('*')
+        .eq('booking_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching reschedules:', error);
+        return res.status(500).json({ error: 'Failed to fetch reschedule history' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in booking reschedule GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle POST request - Propose, accept, reject or counter a new time
+  if (req.method === 'POST') {
+    try {
+      const { action, scheduled_time, message } = req.body;
+      const role = isCustomer ? 'customer' : 'mechanic';
+      const otherPartyId = isCustomer ? booking.mechanic_id : booking.customer_id;
+      const duration = booking.duration_minutes ?? SLOT_DURATION_MINUTES;
+
+      if (!ACTIONS.includes(action)) {
+        return res.status(400).json({ error: `action must be one of: ${ACTIONS.join(', ')}` });
+      }
+
+      // Only bookings that have not started can move
+      if (!SCHEDULABLE_STATUSES.includes(booking.status as BookingStatus)) {
+        return res.status(400).json({
+          error: `Cannot reschedule a booking with status: ${booking.status}`
+        });
+      }
+
+      // Get the proposal awaiting an answer, if any
+      const { data: pending, error: pendingError } = await supabase
+        .from('booking_reschedules')
+        .select('*')
+        .eq('booking_id', id)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (pendingError) {
+        console.error('Error fetching pending reschedule:', pendingError);
+        return res.status(500).json({ error: 'Failed to fetch reschedule history' });
+      }
+
+      // Answers are given to the other party's proposal
+      if (action !== 'propose') {
+        if (!pending) {
+          return res.status(400).json({ error: 'There is no reschedule proposal to answer' });
+        }
+
+        if (pending.proposed_by === userId) {
+          return res.status(403).json({ error: 'You cannot answer your own proposal' });
+        }
+      } else if (pending && pending.proposed_by !== userId) {
+        return res.status(409).json({
+          error: 'The other party has proposed a new time; accept, reject or counter it first',
+          pending_proposal: pending
+        });
+      }
+
+      // Get the mechanic's working hours to check new times against
+      const { data: mechanic, error: mechanicError } = await supabase
+        .from('mechanics')
+        .select('availability_hours')
+        .eq('id', booking.mechanic_id)
+        .single();
+
+      if (mechanicError || !mechanic) {
+        console.error('Error fetching mechanic:', mechanicError);
+        return res.status(500).json({ error: 'Failed to fetch mechanic' });
+      }
+
+      const hours = parseAvailabilityHours(mechanic.availability_hours);
+      const now = new Date().toISOString();
+
+      // Accept - Move the booking to the proposed time
+      if (action === 'accept') {
+        const proposedTime = new Date(pending.proposed_time);
+
+        if (proposedTime.getTime() <= Date.now()) {
+          return res.status(400).json({ error: 'The proposed time has already passed' });
+        }
+
+        // Availability may have changed since the proposal was made
+        const slot = await checkSlot(booking.mechanic_id, hours, proposedTime, duration, id);
+
+        if (!slot.available) {
+          return res.status(409).json({
+            error: slot.reason === 'conflict'
+              ? 'Mechanic is already booked at the proposed time'
+              : 'Mechanic is not working at the proposed time',
+            available_slots: slot.available_slots
+          });
+        }
+
+        // Claim the proposal first so a concurrent accept or reject cannot also act on it
+        const { data: proposal, error: proposalError } = await supabase
+          .from('booking_reschedules')
+          .update({ status: 'accepted', responded_at: now, updated_at: now })
+          .eq('id', pending.id)
+          .eq('status', 'pending')
+          .select()
+          .maybeSingle();
+
+        if (proposalError) {
+          console.error('Error updating reschedule:', proposalError);
+          return res.status(500).json({ error: 'Failed to update reschedule proposal' });
+        }
+
+        if (!proposal) {
+          return res.status(409).json({ error: 'This proposal has already been answered' });
+        }
+
+        // Puts the proposal back up for an answer when the booking cannot be moved
+        const releaseProposal = async () => {
+          const { error: releaseError } = await supabase
+            .from('booking_reschedules')
+            .update({ status: 'pending', responded_at: null, updated_at: new Date().toISOString() })
+            .eq('id', pending.id)
+            .eq('status', 'accepted');
+
+          if (releaseError) {
+            console.error('Error releasing reschedule:', releaseError);
+          }
+        };
+
+        const { data: updated, error: updateError } = await supabase
+          .from('bookings')
+          .update({
+            scheduled_time: proposedTime.toISOString(),
+            // Reminders are due again for the new time
+            reminder_24h_sent_at: null,
+            reminder_1h_sent_at: null,
+            no_show_flagged_at: null,
+            updated_at: now
+          })
+          .eq('id', id)
+          .in('status', SCHEDULABLE_STATUSES)
+          .select()
+          .maybeSingle();
+
+        if (updateError || !updated) {
+          await releaseProposal();
+        }
+
+        // The overlap constraint catches concurrent bookings of overlapping times
+        if (updateError && isBookingOverlapError(updateError)) {
+          return res.status(409).json({ error: 'Mechanic is already booked at the proposed time' });
+        }
+
+        if (updateError) {
+          console.error('Error rescheduling booking:', updateError);
+          return res.status(500).json({ error: 'Failed to reschedule booking' });
+        }
+
+        if (!updated) {
+          return res.status(409).json({ error: 'The booking can no longer be rescheduled' });
+        }
+
+        await recordBookingChanges(id, { id: userId, role }, booking, updated, { reschedule_id: pending.id });
+
+        await createNotification({
+          userId: otherPartyId,
+          type: 'reschedule_accepted',
+          title: 'Reschedule Accepted',
+          message: `Your booking has been moved to ${proposedTime.toISOString()}.`,
+          relatedId: id
+        });
+
+        return res.status(200).json({ booking: updated, proposal });
+      }
+
+      // Reject - Keep the current time
+      if (action === 'reject') {
+        const { data: proposal, error: proposalError } = await supabase
+          .from('booking_reschedules')
+          .update({ status: 'rejected', responded_at: now, updated_at: now })
+          .eq('id', pending.id)
+          .eq('status', 'pending')
+          .select()
+          .maybeSingle();
+
+        if (proposalError) {
+          console.error('Error updating reschedule:', proposalError);
+          return res.status(500).json({ error: 'Failed to update reschedule proposal' });
+        }
+
+        if (!proposal) {
+          return res.status(409).json({ error: 'This proposal has already been answered' });
+        }
+
+        await createNotification({
+          userId: otherPartyId,
+          type: 'reschedule_rejected',
+          title: 'Reschedule Rejected',
+          message: `Your proposal to move the booking was rejected${message ? `: ${message}` : '.'}`,
+          relatedId: id
+        });
+
+        return res.status(200).json({ proposal });
+      }
+
+      // Propose or counter - Validate the new time
+      if (!scheduled_time) {
+        return res.status(400).json({ error: 'scheduled_time is required' });
+      }
+
+      const proposedTime = new Date(scheduled_time);
+
+      if (isNaN(proposedTime.getTime())) {
+        return res.status(400).json({ error: 'scheduled_time must be a valid ISO timestamp' });
+      }
+
+      if (proposedTime.getTime() <= Date.now()) {
+        return res.status(400).json({ error: 'scheduled_time must be in the future' });
+      }
+
+      if (proposedTime.getTime() === new Date(booking.scheduled_time).getTime()) {
+        return res.status(400).json({ error: 'scheduled_time is the current booking time' });
+      }
+
+      const slot = await checkSlot(booking.mechanic_id, hours, proposedTime, duration, id);
+
+      if (!slot.available) {
+        return res.status(409).json({
+          error: slot.reason === 'conflict'
+            ? 'Mechanic is already booked at the requested time'
+            : 'Mechanic is not working at the requested time',
+          available_slots: slot.available_slots
+        });
+      }
+
+      // Close the previous proposal: countered if answering, withdrawn if replacing one's own
+      if (pending) {
+        const { data: closed, error: closeError } = await supabase
+          .from('booking_reschedules')
+          .update({
+            status: action === 'counter' ? 'countered' : 'withdrawn',
+            responded_at: action === 'counter' ? now : null,
+            updated_at: now
+          })
+          .eq('id', pending.id)
+          .eq('status', 'pending')
+          .select('id');
+
+        if (closeError) {
+          console.error('Error updating reschedule:', closeError);
+          return res.status(500).json({ error: 'Failed to update reschedule proposal' });
+        }
+
+        if (!closed || closed.length === 0) {
+          return res.status(409).json({ error: 'This proposal has already been answered' });
+        }
+      }
+
+      const { data: proposal, error: insertError } = await supabase
+        .from('booking_reschedules')
+        .insert({
+          id: uuidv4(),
+          booking_id: id,
+          proposed_by: userId,
+          proposer_role: role,
+          previous_time: booking.scheduled_time,
+          proposed_time: proposedTime.toISOString(),
+          message: message ?? null,
+          status: 'pending',
+          created_at: now
+        })
+        .select()
+        .single();
+
+      // The unique index on pending proposals catches concurrent proposals
+      if (insertError && insertError.code === '23505') {
+        return res.status(409).json({ error: 'Another reschedule proposal is already pending' });
+      }
+
+      if (insertError) {
+        console.error('Error creating reschedule:', insertError);
+        return res.status(500).json({ error: 'Failed to create reschedule proposal' });
+      }
+
+      await createNotification({
+        userId: otherPartyId,
+        type: action === 'counter' ? 'reschedule_countered' : 'reschedule_proposed',
+        title: action === 'counter' ? 'Reschedule Counter-Proposal' : 'Reschedule Requested',
+        message: `The ${role} proposed moving your booking to ${proposedTime.toISOString()}.`,
+        relatedId: id
+      });
+
+      return res.status(201).json({ proposal });
+    } catch (error) {
+      console.error('Error in booking reschedule POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler));
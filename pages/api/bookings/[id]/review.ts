@@ -0,0 +1,129 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { createNotification } from '../../../../lib/notifications';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * API endpoint to review a completed booking
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+  
+  // Check if the user has access to this booking
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('customer_id, mechanic_id, status')
+    .eq('id', id)
+    .single();
+  
+  if (bookingError || !booking) {
+    return res.status(404).json({ error: 'Booking not found' });
+  }
+  
+  if (booking.customer_id !== userId && booking.mechanic_id !== userId) {
+    return res.status(403).json({ error: 'Not authorized to access this booking' });
+  }
+  
+  // Handle GET request - Get the review of the booking
+  if (req.method === 'GET') {
+    try {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq('booking_id', id)
+        .maybeSingle();
+      
+      if (error) {
+        console.error('Error fetching review:', error);
+        return res.status(500).json({ error: 'Failed to fetch review' });
+      }
+      
+      if (!data) {
+        return res.status(404).json({ error: 'This booking has not been reviewed' });
+      }
+      
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in booking review GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle POST request - Submit a review
+  if (req.method === 'POST') {
+    try {
+      const { rating, comment } = req.body;
+      
+      // Only the customer reviews, and only once the work is done
+      if (booking.customer_id !== userId) {
+        return res.status(403).json({ error: 'Only the customer can review this booking' });
+      }
+      
+      if (booking.status !== 'completed') {
+        return res.status(400).json({ error: 'Only completed bookings can be reviewed' });
+      }
+      
+      // Validate rating
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return res.status(400).json({ error: 'rating must be an integer from 1 to 5' });
+      }
+      
+      if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+        return res.status(400).json({ error: 'comment must be a string' });
+      }
+      
+      const { data, error } = await supabase
+        .from('reviews')
+        .insert({
+          id: uuidv4(),
+          booking_id: id,
+          mechanic_id: booking.mechanic_id,
+          customer_id: userId,
+          rating,
+          comment,
+          status: 'published',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+      
+      // The unique booking_id allows a single review per booking
+      if (error && error.code === '23505') {
+        return res.status(409).json({ error: 'This booking has already been reviewed' });
+      }
+      
+      if (error) {
+        console.error('Error creating review:', error);
+        return res.status(500).json({ error: 'Failed to create review' });
+      }
+      
+      await createNotification({
+        userId: booking.mechanic_id,
+        type: 'new_review',
+        title: 'New Review',
+        message: `You received a ${rating}-star review.`,
+        relatedId: data.id
+      });
+      
+      return res.status(201).json(data);
+    } catch (error) {
+      console.error('Error in booking review POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,93 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+
+// Steps of the progress tracker, in order
+const PROGRESS_STEPS = ['pending', 'confirmed', 'in_progress', 'completed'];
+
+/**
+ * API endpoint to get the history of a booking
+ * Returns every recorded change, oldest first, and when each progress step was reached.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id } = req.query; // Booking ID from the URL
+  
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid booking ID' });
+  }
+
+  try {
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('customer_id, mechanic_id, status, created_at')
+      .eq('id', id)
+      .single();
+    
+    if (bookingError || !booking) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+    
+    if (booking.customer_id !== userId && booking.mechanic_id !== userId) {
+      return res.status(403).json({ error: 'Not authorized to access this booking' });
+    }
+    
+    const { data: events, error } = await supabase
+      .from('booking_events')
+      .select(`
+        id,
+        event_type,
+        field,
+        old_value,
+        new_value,
+        metadata,
+        actor_role,
+        created_at,
+        actor:actor_id (id, first_name, last_name)
+      `)
+      .eq('booking_id', id)
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching booking events:', error);
+      return res.status(500).json({ error: 'Failed to fetch booking timeline' });
+    }
+    
+    // When each status was reached; bookings created before events were recorded start from created_at
+    const reachedAt: Record<string, string> = { pending: booking.created_at };
+    
+    for (const event of events ?? []) {
+      if (event.field === 'status' && typeof event.new_value === 'string') {
+        reachedAt[event.new_value] = event.created_at;
+      }
+    }
+    
+    const progress = booking.status === 'cancelled'
+      ? [...PROGRESS_STEPS.filter(step => reachedAt[step]), 'cancelled']
+      : PROGRESS_STEPS;
+    
+    return res.status(200).json({
+      booking_id: id,
+      status: booking.status,
+      progress: progress.map(step => ({
+        status: step,
+        reached_at: reachedAt[step] ?? null
+      })),
+      events
+    });
+  } catch (error) {
+    console.error('Error in booking timeline endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
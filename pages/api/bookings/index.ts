@@ -1,7 +1,18 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../../lib/supabase';
-import { withAuth } from '../../../utils/auth';
+import { isMechanic, withAuth } from '../../../utils/auth';
+import { withIdempotency } from '../../../lib/idempotency';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  checkSlot,
+  findNearestFreeSlots,
+  isBookingOverlapError,
+  parseAvailabilityHours
+} from '../../../lib/availability';
+import { getMechanicOffering, getMechanicOfferings } from '../../../lib/services';
+import { recordBookingEvent } from '../../../lib/booking-events';
+import { createNotification } from '../../../lib/notifications';
+import { checkVehicleAccess, getVehicleOwnerIds } from '../../../lib/vehicle-access';
 
 /**
  * API endpoint to manage bookings
@@ -12,32 +23,95 @@ import { v4 as uuidv4 } from 'uuid';
 async function handler(req: NextApiRequest, res: NextApiResponse) {
   const userId = req.userId; // Set by withAuth middleware
   
-  // Handle GET request - List all bookings for the user
+  // Handle GET request - List bookings for the user
+  // Mechanics see the bookings assigned to them; everyone else sees their own bookings
   if (req.method === 'GET') {
     try {
       // Get query parameters for filtering
-      const { status, mechanic_id, limit = 10, offset = 0 } = req.query;
+      const { 
+        status, 
+        mechanic_id, 
+        view,
+        from,
+        to,
+        role,
+        limit = 10, 
+        offset = 0 
+      } = req.query;
+      
+      // Mechanics can still list the bookings they made as a customer with role=customer
+      const asMechanic = role !== 'customer' && await isMechanic(userId as string);
+      
+      if (role === 'mechanic' && !asMechanic) {
+        return res.status(403).json({ error: 'Only mechanics can list assigned bookings' });
+      }
+      
+      if (view !== undefined && view !== 'today' && view !== 'upcoming') {
+        return res.status(400).json({ error: 'view must be either "today" or "upcoming"' });
+      }
+      
+      for (const [name, value] of Object.entries({ from, to })) {
+        if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+          return res.status(400).json({ error: `${name} must be a valid date` });
+        }
+      }
       
       // Build the query
-      let query = supabase
-        .from('bookings')
-        .select(`
-          *,
-          mechanics:mechanic_id (id, name, profile_image, specialization, rating),
-          vehicles:vehicle_id (id, make, model, year, license_plate)
-        `)
-        .eq('customer_id', userId)
-        .order('scheduled_time', { ascending: false });
+      let query = asMechanic
+        ? supabase
+            .from('bookings')
+            .select(`
+              *,
+              customer:customer_id (id, first_name, last_name, profile_image, phone_number),
+              vehicles:vehicle_id (id, make, model, year, license_plate, color, vin, mileage)
+            `, { count: 'exact' })
+            .eq('mechanic_id', userId)
+        : supabase
+            .from('bookings')
+            .select(`
+              *,
+              mechanics:mechanic_id (id, name, profile_image, specialization, rating),
+              vehicles:vehicle_id (id, make, model, year, license_plate)
+            `, { count: 'exact' })
+            .eq('customer_id', userId);
       
       // Apply filters if provided
       if (status) {
-        query = query.eq('status', status);
+        query = query.in('status', String(status).split(','));
       }
       
-      if (mechanic_id) {
+      if (mechanic_id && !asMechanic) {
         query = query.eq('mechanic_id', mechanic_id);
       }
       
+      if (from) {
+        query = query.gte('scheduled_time', new Date(from as string).toISOString());
+      }
+      
+      if (to) {
+        query = query.lte('scheduled_time', new Date(to as string).toISOString());
+      }
+      
+      // Apply the agenda views, which read in chronological order
+      if (view === 'today') {
+        const startOfDay = new Date();
+        startOfDay.setUTCHours(0, 0, 0, 0);
+        const endOfDay = new Date(startOfDay.getTime() + 86400000);
+        
+        query = query
+          .gte('scheduled_time', startOfDay.toISOString())
+          .lt('scheduled_time', endOfDay.toISOString())
+          .neq('status', 'cancelled');
+      }
+      
+      if (view === 'upcoming') {
+        query = query
+          .gte('scheduled_time', new Date().toISOString())
+          .in('status', ['pending', 'confirmed']);
+      }
+      
+      query = query.order('scheduled_time', { ascending: view !== undefined });
+      
       // Apply pagination
       query = query.range(
         Number(offset), 
@@ -52,20 +126,11 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         return res.status(500).json({ error: 'Failed to fetch bookings' });
       }
       
-      // Get total count for pagination
-      const { count: totalCount, error: countError } = await supabase
-        .from('bookings')
-        .select('*', { count: 'exact', head: true })
-        .eq('customer_id', userId);
-        
-      if (countError) {
-        console.error('Error counting bookings:', countError);
-      }
-      
       return res.status(200).json({
         data,
+        role: asMechanic ? 'mechanic' : 'customer',
         pagination: {
-          total: totalCount ?? 0,
+          total: count ?? 0,
           offset: Number(offset),
           limit: Number(limit)
         }
@@ -88,30 +153,68 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         });
       }
       
-      // Check if the vehicle belongs to the user
-      const { data: vehicle, error: vehicleError } = await supabase
-        .from('vehicles')
-        .select('id')
-        .eq('id', vehicle_id)
-        .eq('user_id', userId)
-        .single();
+      // Validate the requested time
+      const requestedTime = new Date(scheduled_time);
+      
+      if (isNaN(requestedTime.getTime())) {
+        return res.status(400).json({ error: 'scheduled_time must be a valid ISO timestamp' });
+      }
+      
+      if (requestedTime.getTime() <= Date.now()) {
+        return res.status(400).json({ error: 'scheduled_time must be in the future' });
+      }
+      
+      // Check if the user owns the vehicle or it is shared with them for booking
+      const { vehicle, error: vehicleError } = await checkVehicleAccess(
+        vehicle_id, userId as string, 'book', 'id, user_id, organization_id, make, model, year, archived_at'
+      );
         
       if (vehicleError || !vehicle) {
-        return res.status(403).json({ error: 'Vehicle does not belong to the user' });
+        return res.status(vehicleError?.status ?? 404).json({ error: vehicleError?.message });
+      }
+      
+      if (vehicle.archived_at) {
+        return res.status(400).json({ error: 'Archived vehicles cannot be booked' });
       }
       
       // Check if the mechanic is available
       const { data: mechanic, error: mechanicError } = await supabase
         .from('mechanics')
-        .select('id, is_available')
+        .select('id, is_available, availability_hours')
         .eq('id', mechanic_id)
         .eq('is_available', true)
+        .eq('approval_status', 'approved')
         .single();
         
       if (mechanicError || !mechanic) {
         return res.status(400).json({ error: 'Mechanic is not available' });
       }
       
+      // The service must be one the mechanic offers; it determines duration and price
+      const offering = await getMechanicOffering(mechanic_id, service_type);
+      
+      if (!offering) {
+        return res.status(400).json({ 
+          error: 'Mechanic does not offer the requested service',
+          offered_services: (await getMechanicOfferings(mechanic_id)).map(service => service.code)
+        });
+      }
+      
+      const duration = offering.estimated_duration_minutes;
+      
+      // Check the requested time against the mechanic's working hours and other bookings
+      const hours = parseAvailabilityHours(mechanic.availability_hours);
+      const slot = await checkSlot(mechanic_id, hours, requestedTime, duration);
+      
+      if (!slot.available) {
+        return res.status(slot.reason === 'conflict' ? 409 : 400).json({
+          error: slot.reason === 'conflict'
+            ? 'Mechanic is already booked at the requested time'
+            : 'Mechanic is not working at the requested time',
+          available_slots: slot.available_slots
+        });
+      }
+      
       // Create a new booking
       const bookingId = uuidv4();
       const { data, error } = await supabase
@@ -121,8 +224,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           customer_id: userId,
           mechanic_id,
           vehicle_id,
-          scheduled_time,
+          organization_id: vehicle.organization_id ?? null, // Fleet bookings are paid by the organization
+          scheduled_time: requestedTime.toISOString(),
           service_type,
+          service_id: offering.service_id,
+          duration_minutes: duration,
+          estimated_price: offering.price,
           notes,
           status: 'pending',
           created_at: new Date().toISOString()
@@ -130,11 +237,25 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         .select()
         .single();
         
+      // The overlap constraint catches concurrent requests for overlapping times
+      if (error && isBookingOverlapError(error)) {
+        return res.status(409).json({
+          error: 'Mechanic is already booked at the requested time',
+          available_slots: hours ? await findNearestFreeSlots(mechanic_id, hours, requestedTime, duration) : []
+        });
+      }
+      
       if (error) {
         console.error('Error creating booking:', error);
         return res.status(500).json({ error: 'Failed to create booking' });
       }
       
+      await recordBookingEvent(bookingId, { id: userId as string, role: 'customer' }, 'created', {
+        field: 'status',
+        newValue: 'pending',
+        metadata: { scheduled_time: data.scheduled_time, service_type }
+      });
+      
       // Create a notification for the user
       await supabase
         .from('notifications')
@@ -142,12 +263,27 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           user_id: userId,
           type: 'booking_created',
           title: 'Booking Created',
-          message: `Your booking for ${service_type} has been created and is pending confirmation.`,
+          message: `Your booking for ${offering.name} has been created and is pending confirmation.`,
           related_id: bookingId,
           is_read: false,
           created_at: new Date().toISOString()
         });
       
+      // Let the owner, or the organization's owners and admins, know when someone else books the vehicle
+      for (const ownerId of await getVehicleOwnerIds({ user_id: vehicle.user_id, organization_id: vehicle.organization_id })) {
+        if (ownerId === userId) {
+          continue;
+        }
+        
+        await createNotification({
+          userId: ownerId,
+          type: 'shared_vehicle_booked',
+          title: 'Shared Vehicle Booked',
+          message: `Your ${vehicle.year} ${vehicle.make} ${vehicle.model} was booked for ${offering.name} at ${data.scheduled_time}.`,
+          relatedId: vehicle.id
+        });
+      }
+      
       return res.status(201).json(data);
     } catch (error) {
       console.error('Error in bookings POST endpoint:', error);
@@ -159,5 +295,5 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   return res.status(405).json({ error: 'Method not allowed' });
 }
 
-// Wrap the handler with authentication middleware
-export default withAuth(handler);
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler));
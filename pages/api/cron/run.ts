@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { timingSafeEqual } from 'crypto';
+import { runScheduledJobs, SCHEDULED_JOBS } from '../../../lib/scheduled-jobs';
+
+/**
+ * Checks the bearer token sent by the scheduler against CRON_SECRET
+ */
+function isAuthorizedCron(req: NextApiRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const authHeader = req.headers.authorization;
+
+  if (!secret || !authHeader) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(authHeader);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * API endpoint to run the scheduled jobs
+ * Called by Vercel Cron (see vercel.json), or manually with the same bearer token.
+ * Pass ?job=<name> to run a single job.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Vercel Cron sends GET requests
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorizedCron(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { job } = req.query;
+    
+    if (job !== undefined && (typeof job !== 'string' || !SCHEDULED_JOBS.some(j => j.name === job))) {
+      return res.status(400).json({ 
+        error: `job must be one of: ${SCHEDULED_JOBS.map(j => j.name).join(', ')}` 
+      });
+    }
+    
+    const startedAt = new Date();
+    const runs = await runScheduledJobs(job ? [job as string] : undefined, startedAt);
+    
+    // Report a failure if any job failed so the scheduler surfaces it
+    return res.status(runs.some(run => run.error) ? 500 : 200).json({
+      started_at: startedAt.toISOString(),
+      finished_at: new Date().toISOString(),
+      runs
+    });
+  } catch (error) {
+    console.error('Error in cron endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { getMechanicOfferings } from '../../../../lib/services';
+
+// Number of reviews embedded in the profile
+const RECENT_REVIEWS_LIMIT = 5;
+
+/**
+ * API endpoint to get the public profile of a mechanic
+ * Includes offered services, performance stats and the most recent reviews.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Invalid mechanic ID' });
+    }
+
+    // Only public columns; approval and policy internals stay hidden
+    const { data: mechanic, error: mechanicError } = await supabase
+      .from('mechanics')
+      .select(`
+        id,
+        name,
+        profile_image,
+        specialization,
+        experience_years,
+        hourly_rate,
+        rating,
+        review_count,
+        latitude,
+        longitude,
+        availability_hours,
+        is_available,
+        created_at
+      `)
+      .eq('id', id)
+      .eq('approval_status', 'approved')
+      .single();
+
+    if (mechanicError || !mechanic) {
+      return res.status(404).json({ error: 'Mechanic not found' });
+    }
+
+    const { data: stats, error: statsError } = await supabase.rpc('get_mechanic_stats', {
+      p_mechanic_id: id
+    });
+
+    if (statsError) {
+      console.error('Error fetching mechanic stats:', statsError);
+      return res.status(500).json({ error: 'Failed to fetch mechanic stats' });
+    }
+
+    const { data: reviews, error: reviewsError } = await supabase
+      .from('reviews')
+      .select(`
+        id,
+        rating,
+        comment,
+        mechanic_reply,
+        replied_at,
+        created_at,
+        customer:customer_id (first_name, profile_image)
+      `)
+      .eq('mechanic_id', id)
+      .eq('status', 'published')
+      .order('created_at', { ascending: false })
+      .limit(RECENT_REVIEWS_LIMIT);
+
+    if (reviewsError) {
+      console.error('Error fetching mechanic reviews:', reviewsError);
+      return res.status(500).json({ error: 'Failed to fetch mechanic reviews' });
+    }
+
+    const services = await getMechanicOfferings(id);
+
+    const { created_at, ...profile } = mechanic;
+
+    return res.status(200).json({
+      ...profile,
+      member_since: created_at,
+      services,
+      stats,
+      recent_reviews: reviews
+    });
+  } catch (error) {
+    console.error('Error in mechanic detail endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
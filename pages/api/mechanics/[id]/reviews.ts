@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+
+/**
+ * API endpoint to list the published reviews of a mechanic
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, limit = 10, offset = 0 } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Invalid mechanic ID' });
+    }
+
+    const { data: mechanic, error: mechanicError } = await supabase
+      .from('mechanics')
+      .select('id, rating, review_count')
+      .eq('id', id)
+      .eq('approval_status', 'approved')
+      .single();
+
+    if (mechanicError || !mechanic) {
+      return res.status(404).json({ error: 'Mechanic not found' });
+    }
+
+    const { data, error, count } = await supabase
+      .from('reviews')
+      .select(`
+        id,
+        rating,
+        comment,
+        mechanic_reply,
+        replied_at,
+        created_at,
+        customer:customer_id (first_name, profile_image)
+      `, { count: 'exact' })
+      .eq('mechanic_id', id)
+      .eq('status', 'published')
+      .order('created_at', { ascending: false })
+      .range(
+        Number(offset),
+        Number(offset) + Number(limit) - 1
+      );
+
+    if (error) {
+      console.error('Error fetching reviews:', error);
+      return res.status(500).json({ error: 'Failed to fetch reviews' });
+    }
+
+    return res.status(200).json({
+      rating: mechanic.rating,
+      review_count: mechanic.review_count,
+      data,
+      pagination: {
+        total: count ?? 0,
+        offset: Number(offset),
+        limit: Number(limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error in mechanic reviews endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import {
+  getAvailableSlots,
+  isValidDate,
+  parseAvailabilityHours,
+  SLOT_DURATION_MINUTES
+} from '../../../../lib/availability';
+import { getMechanicOffering } from '../../../../lib/services';
+
+/**
+ * API endpoint to list the bookable slots of a mechanic for a given day
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, date, service } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Invalid mechanic ID' });
+    }
+
+    // Validate the requested date
+    if (!date || typeof date !== 'string' || !isValidDate(date)) {
+      return res.status(400).json({ error: 'date is required in YYYY-MM-DD format' });
+    }
+
+    // Get the mechanic's working hours
+    const { data: mechanic, error: mechanicError } = await supabase
+      .from('mechanics')
+      .select('id, availability_hours, is_available')
+      .eq('id', id)
+      .eq('approval_status', 'approved')
+      .single();
+
+    if (mechanicError || !mechanic) {
+      return res.status(404).json({ error: 'Mechanic not found' });
+    }
+
+    // Size the slots to the requested service, if any
+    let duration = SLOT_DURATION_MINUTES;
+    
+    if (service) {
+      const offering = typeof service === 'string'
+        ? await getMechanicOffering(id, service)
+        : null;
+      
+      if (!offering) {
+        return res.status(400).json({ error: 'Mechanic does not offer the requested service' });
+      }
+      
+      duration = offering.estimated_duration_minutes;
+    }
+
+    // A mechanic without a schedule or who is not taking bookings has no slots
+    const hours = parseAvailabilityHours(mechanic.availability_hours);
+    const slots = mechanic.is_available && hours
+      ? await getAvailableSlots(id, hours, date, duration)
+      : [];
+
+    return res.status(200).json({
+      mechanic_id: id,
+      date,
+      slot_duration_minutes: duration,
+      slots
+    });
+  } catch (error) {
+    console.error('Error in mechanic slots endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
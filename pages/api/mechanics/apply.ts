@@ -0,0 +1,109 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { withAuth } from '../../../utils/auth';
+import { parseMechanicProfile } from '../../../lib/mechanics';
+import { createNotification } from '../../../lib/notifications';
+
+/**
+ * API endpoint for a user to apply to work as a mechanic
+ * The mechanic record shares its ID with the applicant's profile, so bookings
+ * assigned to it are authorised against the user's own ID.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { data: profileData, error: validationError } = parseMechanicProfile(req.body);
+    
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    // Validate required fields
+    if (!profileData.specialization || profileData.hourly_rate === undefined) {
+      return res.status(400).json({ 
+        error: 'Missing required fields: specialization and hourly_rate are required' 
+      });
+    }
+    
+    // Check for an existing application
+    const { data: existing, error: existingError } = await supabase
+      .from('mechanics')
+      .select('approval_status')
+      .eq('id', userId)
+      .maybeSingle();
+    
+    if (existingError) {
+      console.error('Error checking mechanic application:', existingError);
+      return res.status(500).json({ error: 'Failed to check existing application' });
+    }
+    
+    if (existing && existing.approval_status !== 'rejected') {
+      return res.status(409).json({ 
+        error: existing.approval_status === 'pending'
+          ? 'Your application is already pending review'
+          : 'You are already registered as a mechanic'
+      });
+    }
+    
+    // Default the display name to the applicant's profile name
+    if (!profileData.name) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('first_name, last_name')
+        .eq('id', userId)
+        .single();
+      
+      const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ');
+      
+      if (!name) {
+        return res.status(400).json({ error: 'name is required' });
+      }
+      
+      profileData.name = name;
+    }
+    
+    // Create the application, or resubmit a rejected one
+    const { data, error } = await supabase
+      .from('mechanics')
+      .upsert({
+        ...profileData,
+        id: userId,
+        approval_status: 'pending',
+        rejection_reason: null,
+        is_available: false,
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating mechanic application:', error);
+      return res.status(500).json({ error: 'Failed to submit application' });
+    }
+    
+    await createNotification({
+      userId,
+      type: 'mechanic_application_submitted',
+      title: 'Application Received',
+      message: 'Your mechanic application has been submitted and is awaiting review.',
+      relatedId: userId
+    });
+    
+    return res.status(201).json(data);
+  } catch (error) {
+    console.error('Error in mechanic apply endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
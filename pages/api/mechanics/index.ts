@@ -1,6 +1,46 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../../lib/supabase';
 import { getUserFromRequest } from '../../../utils/auth';
+import {
+  DEFAULT_SEARCH_RADIUS_KM,
+  MAX_SEARCH_RADIUS_KM,
+  parseCoordinates,
+  parseLocationString
+} from '../../../lib/geo';
+import { getMechanicIdsOfferingService } from '../../../lib/services';
+
+// Public columns returned for each mechanic
+const MECHANIC_COLUMNS = `
+  id,
+  name,
+  profile_image,
+  specialization,
+  experience_years,
+  rating,
+  review_count,
+  hourly_rate,
+  latitude,
+  longitude,
+  availability_hours,
+  is_available
+`;
+
+// A listed mechanic; geo searches add the distance from the search origin
+interface MechanicListing {
+  id: string;
+  name: string;
+  profile_image: string | null;
+  specialization: string | null;
+  experience_years: number | null;
+  rating: number | null;
+  review_count: number | null;
+  hourly_rate: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  availability_hours: unknown;
+  is_available: boolean;
+  distance_km?: number;
+}
 
 /**
  * API endpoint to list available mechanics
@@ -22,30 +62,74 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const { 
       specialization, 
       rating, 
+      service,
+      lat,
+      lng,
+      radius_km,
       location, 
       distance,
       limit = 20, 
       offset = 0,
       sort_by = 'rating',
-      sort_order = 'desc'
+      sort_order
     } = req.query;
     
-    // Build the query
-    let query = supabase
-      .from('mechanics')
-      .select(`
-        id,
-        name,
-        profile_image,
-        specialization,
-        experience_years,
-        rating,
-        hourly_rate,
-        location,
-        availability_hours,
-        is_available
-      `)
-      .eq('is_available', true);
+    // Resolve the search origin; "location" and "distance" are the legacy parameter names
+    const origin = lat !== undefined || lng !== undefined
+      ? parseCoordinates(lat, lng)
+      : typeof location === 'string' ? parseLocationString(location) : null;
+    const isGeoSearch = lat !== undefined || lng !== undefined || location !== undefined;
+    
+    if (isGeoSearch && !origin) {
+      return res.status(400).json({ error: 'lat and lng must be valid coordinates' });
+    }
+    
+    const radius = Number(radius_km ?? distance ?? DEFAULT_SEARCH_RADIUS_KM);
+    
+    if (isGeoSearch && (isNaN(radius) || radius <= 0 || radius > MAX_SEARCH_RADIUS_KM)) {
+      return res.status(400).json({ 
+        error: `radius_km must be a positive number no greater than ${MAX_SEARCH_RADIUS_KM}` 
+      });
+    }
+    
+    if (sort_by === 'distance' && !origin) {
+      return res.status(400).json({ error: 'sort_by=distance requires lat and lng' });
+    }
+    
+    // Restrict to mechanics offering the requested service
+    const serviceMechanicIds = typeof service === 'string'
+      ? await getMechanicIdsOfferingService(service)
+      : null;
+    
+    if (serviceMechanicIds && serviceMechanicIds.length === 0) {
+      return res.status(200).json({
+        data: [],
+        pagination: {
+          total: 0,
+          offset: Number(offset),
+          limit: Number(limit)
+        }
+      });
+    }
+    
+    // Build the query; geo searches go through an RPC that filters by radius in the database
+    let query = origin
+      ? supabase
+          .rpc('search_mechanics_nearby', {
+            p_latitude: origin.latitude,
+            p_longitude: origin.longitude,
+            p_radius_km: radius
+          }, { count: 'exact' })
+      : supabase
+          .from('mechanics')
+          .select(MECHANIC_COLUMNS, { count: 'exact' });
+    
+    query = query.eq('is_available', true);
+    
+    // Applications under review are not listed (the geo search filters them itself)
+    if (!origin) {
+      query = query.eq('approval_status', 'approved');
+    }
     
     // Apply filters if provided
     if (specialization) {
@@ -56,14 +140,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       query = query.gte('rating', Number(rating));
     }
     
-    // Apply sorting
-    if (sort_by && ['rating', 'hourly_rate', 'experience_years'].includes(sort_by as string)) {
-      query = query.order(sort_by as string, { 
-        ascending: sort_order === 'asc'
+    if (serviceMechanicIds) {
+      query = query.in('id', serviceMechanicIds);
+    }
+    
+    // Apply sorting; nearest first and highest first unless sort_order says otherwise
+    const sortableColumns = origin
+      ? ['rating', 'hourly_rate', 'experience_years', 'distance_km']
+      : ['rating', 'hourly_rate', 'experience_years'];
+    const sortColumn = sort_by === 'distance' ? 'distance_km' : sort_by as string;
+    
+    if (sortableColumns.includes(sortColumn)) {
+      query = query.order(sortColumn, { 
+        ascending: sort_by === 'distance' ? sort_order !== 'desc' : sort_order === 'asc'
       });
     }
     
-    // Apply pagination
+    // Apply pagination after all filters so the total matches the result set
     query = query.range(
       Number(offset), 
       Number(offset) + Number(limit) - 1
@@ -77,45 +170,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(500).json({ error: 'Failed to fetch mechanics' });
     }
     
-    // Get total count for pagination
-    const { count: totalCount, error: countError } = await supabase
-      .from('mechanics')
-      .select('*', { count: 'exact', head: true })
-      .eq('is_available', true);
-      
-    if (countError) {
-      console.error('Error counting mechanics:', countError);
-    }
-    
-    // If location and distance are provided, filter by distance
-    // This is a simplified approach - in a real app, you'd use PostGIS or a similar solution
-    let filteredData = data;
-    if (location && distance && typeof location === 'string') {
-      // Parse the location string (format: "latitude,longitude")
-      const [lat, lng] = location.split(',').map(Number);
-      
-      if (!isNaN(lat) && !isNaN(lng) && !isNaN(Number(distance))) {
-        // Filter mechanics by distance (simplified)
-        filteredData = data.filter(mechanic => {
-          if (!mechanic.location) return false;
-          
-          // Parse mechanic location
-          const [mechLat, mechLng] = mechanic.location.split(',').map(Number);
-          
-          // Calculate distance (simplified using Euclidean distance)
-          const distanceKm = Math.sqrt(
-            Math.pow(mechLat - lat, 2) + Math.pow(mechLng - lng, 2)
-          ) * 111; // Rough conversion to kilometers
-          
-          return distanceKm <= Number(distance);
-        });
-      }
-    }
+    const mechanics = ((data ?? []) as MechanicListing[]).map(mechanic => (
+      mechanic.distance_km === undefined
+        ? mechanic
+        : { ...mechanic, distance_km: Math.round(mechanic.distance_km * 100) / 100 }
+    ));
     
     return res.status(200).json({
-      data: filteredData,
+      data: mechanics,
       pagination: {
-        total: totalCount ? totalCount : 0,
+        total: count ?? 0,
         offset: Number(offset),
         limit: Number(limit)
       }
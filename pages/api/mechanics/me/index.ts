@@ -0,0 +1,87 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { parseMechanicProfile } from '../../../../lib/mechanics';
+
+/**
+ * API endpoint for mechanics to view and manage their own profile
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  
+  // Get the caller's mechanic record
+  const { data: mechanic, error: mechanicError } = await supabase
+    .from('mechanics')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+  
+  if (mechanicError) {
+    console.error('Error fetching mechanic:', mechanicError);
+    return res.status(500).json({ error: 'Failed to fetch mechanic profile' });
+  }
+  
+  if (!mechanic) {
+    return res.status(404).json({ error: 'You do not have a mechanic profile. Apply at /api/mechanics/apply' });
+  }
+  
+  // Handle GET request - Get own mechanic profile
+  if (req.method === 'GET') {
+    return res.status(200).json(mechanic);
+  }
+  
+  // Handle PATCH request - Update own mechanic profile
+  if (req.method === 'PATCH') {
+    try {
+      const { data: updateData, error: validationError } = parseMechanicProfile(req.body);
+      
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      
+      // Only approved mechanics can open themselves up for bookings
+      const { is_available } = req.body;
+      
+      if (is_available !== undefined) {
+        if (typeof is_available !== 'boolean') {
+          return res.status(400).json({ error: 'is_available must be a boolean' });
+        }
+        
+        if (is_available && mechanic.approval_status !== 'approved') {
+          return res.status(403).json({ error: 'Your application must be approved before you can take bookings' });
+        }
+        
+        updateData.is_available = is_available;
+      }
+      
+      const { data, error } = await supabase
+        .from('mechanics')
+        .update({
+          ...updateData,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', userId)
+        .select()
+        .single();
+      
+      if (error) {
+        console.error('Error updating mechanic:', error);
+        return res.status(500).json({ error: 'Failed to update mechanic profile' });
+      }
+      
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in mechanic me PATCH endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,126 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { getMechanicOfferings } from '../../../../lib/services';
+
+/**
+ * API endpoint for mechanics to manage the catalog services they offer
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  
+  // Check that the caller has a mechanic profile
+  const { data: mechanic, error: mechanicError } = await supabase
+    .from('mechanics')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle();
+  
+  if (mechanicError) {
+    console.error('Error fetching mechanic:', mechanicError);
+    return res.status(500).json({ error: 'Failed to fetch mechanic profile' });
+  }
+  
+  if (!mechanic) {
+    return res.status(404).json({ error: 'You do not have a mechanic profile. Apply at /api/mechanics/apply' });
+  }
+  
+  // Handle GET request - List own offerings
+  if (req.method === 'GET') {
+    try {
+      return res.status(200).json(await getMechanicOfferings(userId));
+    } catch (error) {
+      console.error('Error in mechanic services GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle PUT request - Replace the offered services
+  if (req.method === 'PUT') {
+    try {
+      const { services } = req.body;
+      
+      if (!Array.isArray(services)) {
+        return res.status(400).json({ 
+          error: 'services must be an array of { code, price_override }' 
+        });
+      }
+      
+      for (const service of services) {
+        if (!service || typeof service.code !== 'string') {
+          return res.status(400).json({ error: 'Each service needs a code' });
+        }
+        
+        if (service.price_override !== undefined && service.price_override !== null &&
+            (typeof service.price_override !== 'number' || service.price_override < 0)) {
+          return res.status(400).json({ error: 'price_override must be a non-negative number' });
+        }
+      }
+      
+      // Resolve catalog codes to service IDs
+      const codes = services.map((service: { code: string }) => service.code);
+      const { data: catalog, error: catalogError } = codes.length > 0
+        ? await supabase
+            .from('services')
+            .select('id, code')
+            .eq('is_active', true)
+            .in('code', codes)
+        : { data: [], error: null };
+      
+      if (catalogError) {
+        console.error('Error fetching services:', catalogError);
+        return res.status(500).json({ error: 'Failed to fetch services' });
+      }
+      
+      const unknownCodes = codes.filter((code: string) => !catalog?.some(s => s.code === code));
+      
+      if (unknownCodes.length > 0) {
+        return res.status(400).json({ 
+          error: 'Unknown services',
+          invalid_codes: unknownCodes
+        });
+      }
+      
+      // Replace the offerings
+      const { error: deleteError } = await supabase
+        .from('mechanic_services')
+        .delete()
+        .eq('mechanic_id', userId);
+      
+      if (deleteError) {
+        console.error('Error clearing mechanic services:', deleteError);
+        return res.status(500).json({ error: 'Failed to update services' });
+      }
+      
+      if (services.length > 0) {
+        const { error: insertError } = await supabase
+          .from('mechanic_services')
+          .insert(services.map((service: { code: string; price_override?: number | null }) => ({
+            mechanic_id: userId,
+            service_id: catalog?.find(s => s.code === service.code)?.id,
+            price_override: service.price_override ?? null,
+            created_at: new Date().toISOString()
+          })));
+        
+        if (insertError) {
+          console.error('Error saving mechanic services:', insertError);
+          return res.status(500).json({ error: 'Failed to update services' });
+        }
+      }
+      
+      return res.status(200).json(await getMechanicOfferings(userId));
+    } catch (error) {
+      console.error('Error in mechanic services PUT endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,96 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { checkOrganizationAccess, ORGANIZATION_ADMIN_ROLES } from '../../../../lib/organizations';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * API endpoint to view and update an organization
+ * Any member can view it; owners and admins can update it.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Organization ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid organization ID' });
+  }
+
+  // Handle GET request - Get the organization
+  if (req.method === 'GET') {
+    try {
+      const { organization, role, error: accessError } = await checkOrganizationAccess(id, userId);
+
+      if (accessError || !organization) {
+        return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+      }
+
+      return res.status(200).json({ ...organization, role });
+    } catch (error) {
+      console.error('Error in organization GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle PATCH request - Update the organization
+  if (req.method === 'PATCH') {
+    try {
+      const { error: accessError } = await checkOrganizationAccess(id, userId, ORGANIZATION_ADMIN_ROLES);
+
+      if (accessError) {
+        return res.status(accessError.status).json({ error: accessError.message });
+      }
+
+      const { name, billing_email } = req.body;
+      const updates: Record<string, unknown> = {};
+
+      if (name !== undefined) {
+        if (typeof name !== 'string' || !name.trim()) {
+          return res.status(400).json({ error: 'name must be a non-empty string' });
+        }
+
+        updates.name = name.trim();
+      }
+
+      if (billing_email !== undefined) {
+        if (billing_email !== null &&
+            (typeof billing_email !== 'string' || !EMAIL_PATTERN.test(billing_email.trim()))) {
+          return res.status(400).json({ error: 'billing_email must be a valid email' });
+        }
+
+        updates.billing_email = billing_email ? billing_email.trim().toLowerCase() : null;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: 'No updatable fields provided' });
+      }
+
+      const { data, error } = await supabase
+        .from('organizations')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating organization:', error);
+        return res.status(500).json({ error: 'Failed to update organization' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in organization PATCH endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
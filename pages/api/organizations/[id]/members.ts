@@ -0,0 +1,266 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { createNotification } from '../../../../lib/notifications';
+import {
+  checkOrganizationAccess,
+  ORGANIZATION_ADMIN_ROLES,
+  ORGANIZATION_ROLES,
+  OrganizationAccess,
+  OrganizationRole
+} from '../../../../lib/organizations';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * API endpoint to manage the members of an organization
+ * Any member can list them; owners and admins add, change and remove members,
+ * but only owners can make someone an owner or change another owner.
+ * Members can always remove themselves. An organization keeps at least one owner.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Organization ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid organization ID' });
+  }
+
+  let access: OrganizationAccess;
+
+  try {
+    access = await checkOrganizationAccess(id, userId);
+  } catch (error) {
+    console.error('Error in organization members endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  const { organization, role: callerRole, error: accessError } = access;
+
+  if (accessError || !organization) {
+    return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+  }
+
+  const isAdmin = ORGANIZATION_ADMIN_ROLES.includes(callerRole as OrganizationRole);
+
+  // Handle GET request - List members
+  if (req.method === 'GET') {
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, created_at, user:user_id (id, first_name, last_name, email)')
+        .eq('organization_id', id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching organization members:', error);
+        return res.status(500).json({ error: 'Failed to fetch organization members' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in organization members GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle POST request - Add a member by email
+  if (req.method === 'POST') {
+    try {
+      const { email, role = 'member' } = req.body;
+
+      if (!isAdmin) {
+        return res.status(403).json({ error: 'Only organization owners and admins can add members' });
+      }
+
+      if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+        return res.status(400).json({ error: 'A valid email is required' });
+      }
+
+      if (!ORGANIZATION_ROLES.includes(role)) {
+        return res.status(400).json({ error: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}` });
+      }
+
+      if (role === 'owner' && callerRole !== 'owner') {
+        return res.status(403).json({ error: 'Only organization owners can add owners' });
+      }
+
+      // Members need an account; they are looked up by the email of their profile
+      const { data: member } = await supabase
+        .from('profiles')
+        .select('id')
+        .ilike('email', email.trim().replace(/[\\%_]/g, '\\$&')) // Match case-insensitively, without wildcards
+        .maybeSingle();
+
+      if (!member) {
+        return res.status(404).json({ error: 'No account found with this email' });
+      }
+
+      const { data, error } = await supabase
+        .from('organization_members')
+        .insert({
+          organization_id: id,
+          user_id: member.id,
+          role,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error && error.code === '23505') {
+        return res.status(409).json({ error: 'This person is already a member of the organization' });
+      }
+
+      if (error) {
+        console.error('Error adding organization member:', error);
+        return res.status(500).json({ error: 'Failed to add organization member' });
+      }
+
+      await createNotification({
+        userId: member.id,
+        type: 'organization_member_added',
+        title: 'Added to Organization',
+        message: `You have been added to ${organization.name} as ${role === 'admin' ? 'an' : 'a'} ${role}.`,
+        relatedId: id
+      });
+
+      return res.status(201).json(data);
+    } catch (error) {
+      console.error('Error in organization members POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    // Handle unsupported methods
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // PATCH and DELETE act on one member, given as user_id
+  const memberId = req.method === 'PATCH' ? req.body.user_id : req.query.user_id;
+
+  if (!memberId || typeof memberId !== 'string') {
+    return res.status(400).json({ error: 'user_id is required' });
+  }
+
+  const { data: membership, error: membershipError } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', id)
+    .eq('user_id', memberId)
+    .maybeSingle();
+
+  if (membershipError) {
+    console.error('Error fetching organization member:', membershipError);
+    return res.status(500).json({ error: 'Failed to fetch organization member' });
+  }
+
+  if (!membership) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
+
+  // Counts the owners so the last one cannot be demoted or removed
+  const countOwners = async () => {
+    const { count, error } = await supabase
+      .from('organization_members')
+      .select('*', { count: 'exact', head: true })
+      .eq('organization_id', id)
+      .eq('role', 'owner');
+
+    if (error) {
+      throw error;
+    }
+
+    return count ?? 0;
+  };
+
+  // Handle PATCH request - Change a member's role
+  if (req.method === 'PATCH') {
+    try {
+      const { role } = req.body;
+
+      if (!isAdmin) {
+        return res.status(403).json({ error: 'Only organization owners and admins can change roles' });
+      }
+
+      if (!ORGANIZATION_ROLES.includes(role)) {
+        return res.status(400).json({ error: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}` });
+      }
+
+      if ((role === 'owner' || membership.role === 'owner') && callerRole !== 'owner') {
+        return res.status(403).json({ error: 'Only organization owners can change owners' });
+      }
+
+      if (membership.role === 'owner' && role !== 'owner' && await countOwners() <= 1) {
+        return res.status(409).json({ error: 'An organization must keep at least one owner' });
+      }
+
+      const { data, error } = await supabase
+        .from('organization_members')
+        .update({ role, updated_at: new Date().toISOString() })
+        .eq('organization_id', id)
+        .eq('user_id', memberId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating organization member:', error);
+        return res.status(500).json({ error: 'Failed to update organization member' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in organization members PATCH endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle DELETE request - Remove a member, or leave the organization
+  try {
+    const isSelf = memberId === userId;
+
+    if (!isSelf && !isAdmin) {
+      return res.status(403).json({ error: 'Only organization owners and admins can remove members' });
+    }
+
+    if (!isSelf && membership.role === 'owner' && callerRole !== 'owner') {
+      return res.status(403).json({ error: 'Only organization owners can remove owners' });
+    }
+
+    if (membership.role === 'owner' && await countOwners() <= 1) {
+      return res.status(409).json({ error: 'An organization must keep at least one owner' });
+    }
+
+    const { error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('organization_id', id)
+      .eq('user_id', memberId);
+
+    if (error) {
+      console.error('Error removing organization member:', error);
+      return res.status(500).json({ error: 'Failed to remove organization member' });
+    }
+
+    if (!isSelf) {
+      await createNotification({
+        userId: memberId,
+        type: 'organization_member_removed',
+        title: 'Removed from Organization',
+        message: `You are no longer a member of ${organization.name}.`,
+        relatedId: id
+      });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error in organization members DELETE endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
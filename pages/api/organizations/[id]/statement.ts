@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAuth } from '../../../../utils/auth';
+import {
+  checkOrganizationAccess,
+  getMonthlyStatement,
+  ORGANIZATION_ADMIN_ROLES,
+  parseStatementMonth
+} from '../../../../lib/organizations';
+
+/**
+ * API endpoint for an organization's monthly statement
+ * Summarises every fleet booking scheduled in the month and every movement on the
+ * organization wallet. ?month=YYYY-MM picks the month (UTC); defaults to last month.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id, month } = req.query; // Organization ID from the URL
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid organization ID' });
+  }
+
+  let statementMonth: string;
+
+  if (month === undefined) {
+    const lastMonth = new Date();
+    lastMonth.setUTCDate(1);
+    lastMonth.setUTCMonth(lastMonth.getUTCMonth() - 1);
+    statementMonth = lastMonth.toISOString().slice(0, 7);
+  } else if (typeof month === 'string' && parseStatementMonth(month)) {
+    statementMonth = month;
+  } else {
+    return res.status(400).json({ error: 'month must be formatted as YYYY-MM' });
+  }
+
+  try {
+    // Billing is visible to the organization's owners and admins
+    const { error: accessError } = await checkOrganizationAccess(id, userId, ORGANIZATION_ADMIN_ROLES);
+
+    if (accessError) {
+      return res.status(accessError.status).json({ error: accessError.message });
+    }
+
+    const statement = await getMonthlyStatement(id, statementMonth);
+
+    return res.status(200).json(statement);
+  } catch (error) {
+    console.error('Error in organization statement endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,193 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import {
+  checkOrganizationAccess,
+  ORGANIZATION_ADMIN_ROLES,
+  OrganizationAccess,
+  OrganizationRole
+} from '../../../../lib/organizations';
+
+/**
+ * API endpoint to manage an organization's fleet
+ * Any member can list the fleet. Owners and admins add vehicles they own to it
+ * and take vehicles out of it; bookings of fleet vehicles are paid by the organization.
+ * The organization owns its fleet: access comes from membership alone, so open
+ * personal shares end when a vehicle joins it, and a vehicle taken out of the fleet
+ * goes to the admin who took it out.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Organization ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid organization ID' });
+  }
+
+  let access: OrganizationAccess;
+
+  try {
+    access = await checkOrganizationAccess(id, userId);
+  } catch (error) {
+    console.error('Error in organization vehicles endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  const { organization, role, error: accessError } = access;
+
+  if (accessError || !organization) {
+    return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+  }
+
+  const isAdmin = ORGANIZATION_ADMIN_ROLES.includes(role as OrganizationRole);
+
+  // Handle GET request - List the fleet
+  if (req.method === 'GET') {
+    try {
+      const { include_archived } = req.query;
+
+      let query = supabase
+        .from('vehicles')
+        .select('*, added_by:user_id (id, first_name, last_name)')
+        .eq('organization_id', id)
+        .order('created_at', { ascending: false });
+
+      // Archived vehicles are hidden unless asked for
+      if (include_archived !== 'true') {
+        query = query.is('archived_at', null);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching organization vehicles:', error);
+        return res.status(500).json({ error: 'Failed to fetch organization vehicles' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in organization vehicles GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle POST request - Add a vehicle the caller owns to the fleet
+  if (req.method === 'POST') {
+    try {
+      const { vehicle_id } = req.body;
+
+      if (!isAdmin) {
+        return res.status(403).json({ error: 'Only organization owners and admins can add vehicles' });
+      }
+
+      if (!vehicle_id || typeof vehicle_id !== 'string') {
+        return res.status(400).json({ error: 'vehicle_id is required' });
+      }
+
+      const { data: vehicle, error: vehicleError } = await supabase
+        .from('vehicles')
+        .select('id, user_id, organization_id, archived_at')
+        .eq('id', vehicle_id)
+        .maybeSingle();
+
+      if (vehicleError) {
+        console.error('Error fetching vehicle:', vehicleError);
+        return res.status(500).json({ error: 'Failed to fetch vehicle' });
+      }
+
+      if (!vehicle) {
+        return res.status(404).json({ error: 'Vehicle not found' });
+      }
+
+      if (vehicle.user_id !== userId) {
+        return res.status(403).json({ error: 'Only the owner of a vehicle can add it to an organization' });
+      }
+
+      if (vehicle.archived_at) {
+        return res.status(409).json({ error: 'Archived vehicles cannot be added to an organization' });
+      }
+
+      if (vehicle.organization_id) {
+        return res.status(409).json({
+          error: vehicle.organization_id === id
+            ? 'Vehicle is already part of this organization'
+            : 'Vehicle belongs to another organization'
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('vehicles')
+        .update({ organization_id: id, updated_at: new Date().toISOString() })
+        .eq('id', vehicle_id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding vehicle to organization:', error);
+        return res.status(500).json({ error: 'Failed to add vehicle to organization' });
+      }
+
+      const { error: sharesError } = await supabase
+        .from('vehicle_shares')
+        .update({ status: 'revoked', updated_at: new Date().toISOString() })
+        .eq('vehicle_id', vehicle_id)
+        .in('status', ['pending', 'accepted']);
+
+      if (sharesError) {
+        console.error('Error revoking vehicle shares:', sharesError);
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in organization vehicles POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle DELETE request - Take a vehicle out of the fleet
+  // Bookings already made keep being paid by the organization
+  if (req.method === 'DELETE') {
+    try {
+      const { vehicle_id } = req.query;
+
+      if (!isAdmin) {
+        return res.status(403).json({ error: 'Only organization owners and admins can remove vehicles' });
+      }
+
+      if (!vehicle_id || typeof vehicle_id !== 'string') {
+        return res.status(400).json({ error: 'vehicle_id is required' });
+      }
+
+      const { data, error } = await supabase
+        .from('vehicles')
+        .update({ organization_id: null, user_id: userId, updated_at: new Date().toISOString() })
+        .eq('id', vehicle_id)
+        .eq('organization_id', id)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error removing vehicle from organization:', error);
+        return res.status(500).json({ error: 'Failed to remove vehicle from organization' });
+      }
+
+      if (!data) {
+        return res.status(404).json({ error: 'Vehicle is not part of this organization' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in organization vehicles DELETE endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
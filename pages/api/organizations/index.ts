@@ -0,0 +1,105 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { withAuth } from '../../../utils/auth';
+import { v4 as uuidv4 } from 'uuid';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * API endpoint to manage the organizations (fleet accounts) of the authenticated user
+ * The user who creates an organization becomes its owner.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+
+  // Handle GET request - List the user's organizations
+  if (req.method === 'GET') {
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('role, organization:organization_id (*)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching organizations:', error);
+        return res.status(500).json({ error: 'Failed to fetch organizations' });
+      }
+
+      return res.status(200).json(
+        (data ?? []).map(membership => ({ ...(membership.organization as any), role: membership.role }))
+      );
+    } catch (error) {
+      console.error('Error in organizations GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle POST request - Create an organization
+  if (req.method === 'POST') {
+    try {
+      const { name, billing_email } = req.body;
+
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'name must be a non-empty string' });
+      }
+
+      if (billing_email !== undefined && billing_email !== null &&
+          (typeof billing_email !== 'string' || !EMAIL_PATTERN.test(billing_email.trim()))) {
+        return res.status(400).json({ error: 'billing_email must be a valid email' });
+      }
+
+      const organizationId = uuidv4();
+      const now = new Date().toISOString();
+
+      const { data, error } = await supabase
+        .from('organizations')
+        .insert({
+          id: organizationId,
+          name: name.trim(),
+          billing_email: billing_email ? billing_email.trim().toLowerCase() : null,
+          created_by: userId,
+          created_at: now
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating organization:', error);
+        return res.status(500).json({ error: 'Failed to create organization' });
+      }
+
+      const { error: memberError } = await supabase
+        .from('organization_members')
+        .insert({
+          organization_id: organizationId,
+          user_id: userId,
+          role: 'owner',
+          created_at: now
+        });
+
+      if (memberError) {
+        console.error('Error adding organization owner:', memberError);
+
+        // An organization without an owner could never be managed
+        await supabase.from('organizations').delete().eq('id', organizationId);
+
+        return res.status(500).json({ error: 'Failed to create organization' });
+      }
+
+      return res.status(201).json({ ...data, role: 'owner' });
+    } catch (error) {
+      console.error('Error in organizations POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,130 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { withAuth } from '../../../utils/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { createNotification } from '../../../lib/notifications';
+import { isQuoteNotPendingError, QUOTE_COLUMNS } from '../../../lib/quotes';
+import { recordBookingEvent } from '../../../lib/booking-events';
+
+/**
+ * API endpoint for customers to approve or reject a quote
+ * Approving makes the quote total the amount charged for the booking.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Quote ID from the URL
+  
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid quote ID' });
+  }
+
+  try {
+    const { action, rejection_reason } = req.body;
+    
+    if (action !== 'approve' && action !== 'reject') {
+      return res.status(400).json({ error: 'action must be either "approve" or "reject"' });
+    }
+    
+    const { data: quote, error: quoteError } = await supabase
+      .from('booking_quotes')
+      .select('id, booking_id, mechanic_id, status, total, booking:booking_id (customer_id, total_amount)')
+      .eq('id', id)
+      .single();
+    
+    if (quoteError || !quote) {
+      return res.status(404).json({ error: 'Quote not found' });
+    }
+    
+    const booking = quote.booking as unknown as { customer_id: string; total_amount: number | null };
+    
+    if (booking.customer_id !== userId) {
+      return res.status(403).json({ error: 'Only the customer can answer this quote' });
+    }
+    
+    if (quote.status !== 'pending') {
+      return res.status(409).json({ error: `Quote has already been ${quote.status}` });
+    }
+    
+    if (action === 'approve') {
+      // Approval and the booking total are updated together
+      const { error } = await supabase.rpc('approve_booking_quote', {
+        p_quote_id: id
+      });
+      
+      if (error) {
+        if (isQuoteNotPendingError(error)) {
+          return res.status(409).json({ error: 'This quote can no longer be approved' });
+        }
+        
+        console.error('Error approving quote:', error);
+        return res.status(500).json({ error: 'Failed to approve quote' });
+      }
+      
+      await recordBookingEvent(quote.booking_id, { id: userId, role: 'customer' }, 'amount_changed', {
+        field: 'total_amount',
+        oldValue: booking.total_amount === null ? null : Number(booking.total_amount),
+        newValue: Number(quote.total),
+        metadata: { quote_id: id }
+      });
+    } else {
+      const { data: rejected, error } = await supabase
+        .from('booking_quotes')
+        .update({
+          status: 'rejected',
+          rejection_reason: rejection_reason ?? null,
+          responded_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('id');
+      
+      if (error) {
+        console.error('Error rejecting quote:', error);
+        return res.status(500).json({ error: 'Failed to reject quote' });
+      }
+      
+      if (!rejected || rejected.length === 0) {
+        return res.status(409).json({ error: 'This quote can no longer be rejected' });
+      }
+    }
+    
+    await createNotification({
+      userId: quote.mechanic_id,
+      type: `quote_${action === 'approve' ? 'approved' : 'rejected'}`,
+      title: action === 'approve' ? 'Quote Approved' : 'Quote Rejected',
+      message: action === 'approve'
+        ? 'The customer approved your quote. You can start the work.'
+        : `The customer rejected your quote${rejection_reason ? `: ${rejection_reason}` : '.'}`,
+      relatedId: quote.booking_id
+    });
+    
+    const { data, error } = await supabase
+      .from('booking_quotes')
+      .select(QUOTE_COLUMNS)
+      .eq('id', id)
+      .order('position', { referencedTable: 'booking_quote_items' })
+      .single();
+    
+    if (error) {
+      console.error('Error fetching quote:', error);
+      return res.status(500).json({ error: 'Failed to fetch quote' });
+    }
+    
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error('Error in quote PATCH endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler, ['PATCH']));
@@ -0,0 +1,106 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { isAdmin, withAuth } from '../../../utils/auth';
+import { createNotification } from '../../../lib/notifications';
+
+/**
+ * API endpoint to reply to or moderate a review
+ * The reviewed mechanic can reply; admins can hide or republish the review.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Review ID from the URL
+  
+  // Only allow PATCH requests
+  if (req.method !== 'PATCH') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid review ID' });
+  }
+
+  try {
+    const { reply, status, moderation_reason } = req.body;
+    
+    const { data: review, error: reviewError } = await supabase
+      .from('reviews')
+      .select('id, mechanic_id, customer_id, mechanic_reply')
+      .eq('id', id)
+      .single();
+    
+    if (reviewError || !review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+    
+    const updateData: Record<string, unknown> = {};
+    
+    // Mechanic reply
+    if (reply !== undefined) {
+      if (review.mechanic_id !== userId) {
+        return res.status(403).json({ error: 'Only the reviewed mechanic can reply' });
+      }
+      
+      if (typeof reply !== 'string' || !reply.trim()) {
+        return res.status(400).json({ error: 'reply must be a non-empty string' });
+      }
+      
+      updateData.mechanic_reply = reply;
+      updateData.replied_at = new Date().toISOString();
+    }
+    
+    // Moderation
+    if (status !== undefined) {
+      if (!(await isAdmin(userId))) {
+        return res.status(403).json({ error: 'Admin access required to moderate reviews' });
+      }
+      
+      if (status !== 'published' && status !== 'hidden') {
+        return res.status(400).json({ error: 'status must be either "published" or "hidden"' });
+      }
+      
+      updateData.status = status;
+      updateData.moderation_reason = moderation_reason ?? null;
+    }
+    
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update: provide reply or status' });
+    }
+    
+    updateData.updated_at = new Date().toISOString();
+    
+    // The rating trigger recomputes the mechanic's aggregate when status changes
+    const { data, error } = await supabase
+      .from('reviews')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating review:', error);
+      return res.status(500).json({ error: 'Failed to update review' });
+    }
+    
+    if (reply !== undefined && !review.mechanic_reply) {
+      await createNotification({
+        userId: review.customer_id,
+        type: 'review_reply',
+        title: 'Mechanic Replied',
+        message: 'The mechanic replied to your review.',
+        relatedId: id
+      });
+    }
+    
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error('Error in review PATCH endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
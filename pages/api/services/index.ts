@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+
+/**
+ * API endpoint to list the service catalog
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { category } = req.query;
+    
+    // Build the query
+    let query = supabase
+      .from('services')
+      .select(`
+        id,
+        code,
+        name,
+        description,
+        estimated_duration_minutes,
+        base_price,
+        category:category_id!inner (id, slug, name)
+      `)
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+    
+    // Apply filters if provided
+    if (category) {
+      query = query.eq('category.slug', category);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching services:', error);
+      return res.status(500).json({ error: 'Failed to fetch services' });
+    }
+    
+    // Get the categories for navigation
+    const { data: categories, error: categoriesError } = await supabase
+      .from('service_categories')
+      .select('id, slug, name, description')
+      .order('name', { ascending: true });
+    
+    if (categoriesError) {
+      console.error('Error fetching service categories:', categoriesError);
+      return res.status(500).json({ error: 'Failed to fetch service categories' });
+    }
+    
+    return res.status(200).json({
+      data,
+      categories
+    });
+  } catch (error) {
+    console.error('Error in services endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,155 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { withAuth } from '../../../utils/auth';
+import { createNotification } from '../../../lib/notifications';
+
+/**
+ * API endpoint to answer or end a vehicle share
+ * PATCH lets the invitee accept or decline an invitation; DELETE lets the owner
+ * revoke a share or the person it was shared with give it up.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Share ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid share ID' });
+  }
+
+  const { data: share, error: shareError } = await supabase
+    .from('vehicle_shares')
+    .select('*, vehicle:vehicle_id (user_id, make, model, year)')
+    .eq('id', id)
+    .single();
+
+  if (shareError || !share) {
+    return res.status(404).json({ error: 'Share not found' });
+  }
+
+  const vehicle = share.vehicle as { user_id: string; make: string; model: string; year: number };
+  const now = new Date().toISOString();
+
+  // Handle PATCH request - Accept or decline an invitation
+  if (req.method === 'PATCH') {
+    try {
+      const { action } = req.body;
+
+      if (action !== 'accept' && action !== 'decline') {
+        return res.status(400).json({ error: 'action must be either "accept" or "decline"' });
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('email, first_name, last_name')
+        .eq('id', userId)
+        .single();
+
+      if (!profile?.email || profile.email.toLowerCase() !== share.invited_email) {
+        return res.status(403).json({ error: 'This invitation was sent to someone else' });
+      }
+
+      if (share.status !== 'pending') {
+        return res.status(409).json({ error: `Invitation has already been ${share.status}` });
+      }
+
+      const { data, error } = await supabase
+        .from('vehicle_shares')
+        .update({
+          status: action === 'accept' ? 'accepted' : 'declined',
+          user_id: action === 'accept' ? userId : null,
+          responded_at: now,
+          updated_at: now
+        })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating vehicle share:', error);
+        return res.status(500).json({ error: 'Failed to update vehicle share' });
+      }
+
+      if (!data) {
+        return res.status(409).json({ error: 'Invitation has already been answered' });
+      }
+
+      const name = [profile.first_name, profile.last_name].filter(Boolean).join(' ') || share.invited_email;
+
+      await createNotification({
+        userId: vehicle.user_id,
+        type: `vehicle_share_${data.status}`,
+        title: action === 'accept' ? 'Vehicle Share Accepted' : 'Vehicle Share Declined',
+        message: `${name} ${data.status} access to your ${vehicle.year} ${vehicle.make} ${vehicle.model} as a ${share.role}.`,
+        relatedId: id
+      });
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in vehicle share PATCH endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle DELETE request - Revoke a share or give it up
+  if (req.method === 'DELETE') {
+    try {
+      const isOwner = vehicle.user_id === userId;
+      const isSharee = share.user_id === userId;
+
+      if (!isOwner && !isSharee) {
+        return res.status(403).json({ error: 'Not authorized to remove this share' });
+      }
+
+      if (share.status !== 'pending' && share.status !== 'accepted') {
+        return res.status(409).json({ error: `Share has already been ${share.status}` });
+      }
+
+      const { data, error } = await supabase
+        .from('vehicle_shares')
+        .update({ status: 'revoked', updated_at: now })
+        .eq('id', id)
+        .in('status', ['pending', 'accepted'])
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error revoking vehicle share:', error);
+        return res.status(500).json({ error: 'Failed to revoke vehicle share' });
+      }
+
+      if (!data) {
+        return res.status(409).json({ error: 'Share has already ended' });
+      }
+
+      // Tell the other side the share has ended
+      const otherPartyId = isOwner ? share.user_id : vehicle.user_id;
+
+      if (otherPartyId) {
+        await createNotification({
+          userId: otherPartyId,
+          type: 'vehicle_share_revoked',
+          title: 'Vehicle Share Ended',
+          message: isOwner
+            ? `You no longer have access to the ${vehicle.year} ${vehicle.make} ${vehicle.model}.`
+            : `${share.invited_email} no longer has access to your ${vehicle.year} ${vehicle.make} ${vehicle.model}.`,
+          relatedId: id
+        });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in vehicle share DELETE endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
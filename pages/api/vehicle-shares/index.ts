@@ -0,0 +1,60 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../lib/supabase';
+import { withAuth } from '../../../utils/auth';
+
+/**
+ * API endpoint to list the vehicle invitations and shares of the authenticated user
+ * Invitations are matched on the email of the user's profile.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  try {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', userId)
+      .single();
+    
+    if (profileError || !profile) {
+      console.error('Error fetching profile:', profileError);
+      return res.status(500).json({ error: 'Failed to fetch profile' });
+    }
+    
+    let query = supabase
+      .from('vehicle_shares')
+      .select('*, vehicle:vehicle_id (id, make, model, year, license_plate)')
+      .order('created_at', { ascending: false });
+    
+    // Pending invitations to the user's email, and shares the user accepted
+    query = profile.email
+      ? query.or(`and(status.eq.pending,invited_email.eq."${profile.email.toLowerCase()}"),and(status.eq.accepted,user_id.eq.${userId})`)
+      : query.eq('status', 'accepted').eq('user_id', userId);
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching vehicle shares:', error);
+      return res.status(500).json({ error: 'Failed to fetch vehicle shares' });
+    }
+    
+    return res.status(200).json({
+      invitations: (data ?? []).filter(share => share.status === 'pending'),
+      shares: (data ?? []).filter(share => share.status === 'accepted')
+    });
+  } catch (error) {
+    console.error('Error in vehicle shares endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
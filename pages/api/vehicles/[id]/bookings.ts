@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { checkVehicleAccess } from '../../../../lib/vehicle-access';
+
+/**
+ * API endpoint to list every booking of a vehicle and who made it
+ * Available to the vehicle's owner and managers.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id, status } = req.query; // Vehicle ID from the URL
+  
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid vehicle ID' });
+  }
+  
+  try {
+    const { error: accessError } = await checkVehicleAccess(id, userId, 'view_bookings', 'id, user_id, organization_id');
+    
+    if (accessError) {
+      return res.status(accessError.status).json({ error: accessError.message });
+    }
+    
+    let query = supabase
+      .from('bookings')
+      .select(`
+        id, scheduled_time, service_type, status, total_amount, created_at,
+        booked_by:customer_id (id, first_name, last_name, email),
+        mechanics:mechanic_id (id, name)
+      `)
+      .eq('vehicle_id', id)
+      .order('scheduled_time', { ascending: false });
+    
+    if (status && typeof status === 'string') {
+      query = query.eq('status', status);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      console.error('Error fetching vehicle bookings:', error);
+      return res.status(500).json({ error: 'Failed to fetch vehicle bookings' });
+    }
+    
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error('Error in vehicle bookings endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,132 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import {
+  getVehicleHistory,
+  HistoryVehicle,
+  parseManualServiceEntry,
+  renderHistoryCsv,
+  renderHistoryPdf
+} from '../../../../lib/vehicle-history';
+import { raiseVehicleMileage } from '../../../../lib/vehicles';
+import { canAccessVehicle, checkVehicleAccess, VehicleAccess } from '../../../../lib/vehicle-access';
+import { v4 as uuidv4 } from 'uuid';
+
+const FORMATS = ['json', 'csv', 'pdf'];
+
+/**
+ * API endpoint for the service history of a vehicle
+ * GET returns the maintenance log as JSON, or as a file with ?format=csv or ?format=pdf.
+ * POST logs work done outside the platform.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id, format = 'json' } = req.query; // Vehicle ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid vehicle ID' });
+  }
+
+  // Check if the vehicle exists and is owned by or shared with the user
+  let access: VehicleAccess;
+
+  try {
+    access = await checkVehicleAccess(id, userId as string, 'view');
+  } catch (error) {
+    console.error('Error in vehicle history endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  const { vehicle, role, error: accessError } = access;
+
+  if (accessError || !vehicle) {
+    return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+  }
+
+  // Handle GET request - Get the maintenance log
+  if (req.method === 'GET') {
+    try {
+      if (typeof format !== 'string' || !FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of: ${FORMATS.join(', ')}` });
+      }
+
+      const entries = await getVehicleHistory(id);
+      const filename = `service-history-${vehicle.license_plate.replace(/[^A-Za-z0-9-]/g, '')}`;
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        return res.status(200).send(renderHistoryCsv(entries));
+      }
+
+      if (format === 'pdf') {
+        const pdf = renderHistoryPdf(vehicle as HistoryVehicle, entries);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+        res.setHeader('Content-Length', pdf.length);
+        return res.status(200).send(pdf);
+      }
+
+      return res.status(200).json({ vehicle_id: id, entries });
+    } catch (error) {
+      console.error('Error in vehicle history GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle POST request - Log work done outside the platform
+  if (req.method === 'POST') {
+    try {
+      if (!canAccessVehicle(role, 'edit')) {
+        return res.status(403).json({ error: `Vehicle ${role}s cannot edit this vehicle` });
+      }
+
+      if (vehicle.archived_at) {
+        return res.status(409).json({ error: 'Archived vehicles cannot be updated' });
+      }
+
+      const { data: entry, error: validationError } = parseManualServiceEntry(req.body);
+
+      if (validationError || !entry) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const { data, error } = await supabase
+        .from('vehicle_service_entries')
+        .insert({
+          id: uuidv4(),
+          vehicle_id: id,
+          created_by: userId,
+          ...entry,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating service entry:', error);
+        return res.status(500).json({ error: 'Failed to create service entry' });
+      }
+
+      // A newer odometer reading raises the vehicle's recorded mileage
+      if (entry.mileage !== null) {
+        await raiseVehicleMileage(id, entry.mileage);
+      }
+
+      return res.status(201).json(data);
+    } catch (error) {
+      console.error('Error in vehicle history POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
@@ -0,0 +1,191 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { ACTIVE_BOOKING_STATUSES, applyVinDecoding, parseVehicleFields } from '../../../../lib/vehicles';
+import { canAccessVehicle, checkVehicleAccess, VehicleAccess } from '../../../../lib/vehicle-access';
+
+/**
+ * API endpoint to manage a specific vehicle by ID
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id } = req.query; // Vehicle ID from the URL
+  
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid vehicle ID' });
+  }
+  
+  // Check if the vehicle exists and is owned by or shared with the user
+  let access: VehicleAccess;
+  
+  try {
+    access = await checkVehicleAccess(id, userId as string, 'view');
+  } catch (error) {
+    console.error('Error in vehicle endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+  
+  const { vehicle, role, error: accessError } = access;
+  
+  if (accessError || !vehicle || !role) {
+    return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+  }
+  
+  // Handle GET request - Get vehicle details
+  if (req.method === 'GET') {
+    return res.status(200).json({ ...vehicle, access_role: role });
+  }
+  
+  // Handle PATCH request - Update vehicle details
+  if (req.method === 'PATCH') {
+    try {
+      if (!canAccessVehicle(role, 'edit')) {
+        return res.status(403).json({ error: `Vehicle ${role}s cannot edit this vehicle` });
+      }
+      
+      if (vehicle.archived_at) {
+        return res.status(409).json({ error: 'Archived vehicles cannot be updated' });
+      }
+      
+      const { data: updateData, error: validationError } = parseVehicleFields(req.body, vehicle);
+      
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      
+      if (Object.keys(updateData).length === 0) {
+        return res.status(400).json({ error: 'No updatable fields provided' });
+      }
+      
+      // Check a new VIN, make or year against each other
+      const vinWarnings = ['vin', 'make', 'year'].some(field => field in updateData)
+        ? applyVinDecoding(updateData, vehicle)
+        : [];
+      
+      // Check if the new license plate is used by another vehicle
+      if (updateData.license_plate && updateData.license_plate !== vehicle.license_plate) {
+        const { data: existingVehicle } = await supabase
+          .from('vehicles')
+          .select('id')
+          .eq('license_plate', updateData.license_plate)
+          .neq('id', id)
+          .maybeSingle();
+        
+        if (existingVehicle) {
+          return res.status(409).json({ error: 'A vehicle with this license plate already exists' });
+        }
+      }
+      
+      // Guard against a concurrent update lowering the mileage
+      let query = supabase
+        .from('vehicles')
+        .update({ ...updateData, updated_at: new Date().toISOString() })
+        .eq('id', id);
+      
+      if (typeof updateData.mileage === 'number') {
+        query = vehicle.mileage === null
+          ? query.or(`mileage.is.null,mileage.lte.${updateData.mileage}`)
+          : query.lte('mileage', updateData.mileage);
+      }
+      
+      const { data, error } = await query.select().maybeSingle();
+      
+      if (error && error.code === '23505') {
+        return res.status(409).json({ error: 'A vehicle with this license plate already exists' });
+      }
+      
+      if (error) {
+        console.error('Error updating vehicle:', error);
+        return res.status(500).json({ error: 'Failed to update vehicle' });
+      }
+      
+      if (!data) {
+        return res.status(409).json({ error: 'mileage cannot be lower than the recorded mileage' });
+      }
+      
+      return res.status(200).json(vinWarnings.length > 0 ? { ...data, vin_warnings: vinWarnings } : data);
+    } catch (error) {
+      console.error('Error in vehicle PATCH endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle DELETE request - Delete the vehicle, or archive it if it has bookings
+  if (req.method === 'DELETE') {
+    try {
+      if (!canAccessVehicle(role, 'delete')) {
+        return res.status(403).json({ error: 'Only the owner can delete this vehicle' });
+      }
+      
+      const { data: bookings, error: bookingsError } = await supabase
+        .from('bookings')
+        .select('id, status')
+        .eq('vehicle_id', id);
+      
+      if (bookingsError) {
+        console.error('Error fetching vehicle bookings:', bookingsError);
+        return res.status(500).json({ error: 'Failed to fetch vehicle bookings' });
+      }
+      
+      // Active bookings still go ahead; archiving only stops new ones
+      const activeBookingIds = (bookings ?? [])
+        .filter(b => ACTIVE_BOOKING_STATUSES.includes(b.status))
+        .map(b => b.id);
+      
+      // Bookings keep referring to the vehicle, so it is archived rather than deleted
+      if (bookings && bookings.length > 0) {
+        if (vehicle.archived_at) {
+          return res.status(200).json({
+            id,
+            result: 'archived',
+            archived_at: vehicle.archived_at,
+            active_booking_ids: activeBookingIds
+          });
+        }
+        
+        const { data, error } = await supabase
+          .from('vehicles')
+          .update({ archived_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .select('archived_at')
+          .single();
+        
+        if (error) {
+          console.error('Error archiving vehicle:', error);
+          return res.status(500).json({ error: 'Failed to archive vehicle' });
+        }
+        
+        return res.status(200).json({
+          id,
+          result: 'archived',
+          archived_at: data.archived_at,
+          active_booking_ids: activeBookingIds
+        });
+      }
+      
+      const { error } = await supabase
+        .from('vehicles')
+        .delete()
+        .eq('id', id);
+      
+      if (error) {
+        console.error('Error deleting vehicle:', error);
+        return res.status(500).json({ error: 'Failed to delete vehicle' });
+      }
+      
+      return res.status(200).json({ id, result: 'deleted' });
+    } catch (error) {
+      console.error('Error in vehicle DELETE endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
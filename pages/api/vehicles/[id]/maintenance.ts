@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAuth } from '../../../../utils/auth';
+import { getVehicleMaintenance } from '../../../../lib/maintenance';
+import { checkVehicleAccess } from '../../../../lib/vehicle-access';
+
+/**
+ * API endpoint to list the maintenance due for a vehicle
+ * Returns services that are due soon or overdue, most urgent first;
+ * ?include_ok=true lists every scheduled service.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  const { id, include_ok } = req.query; // Vehicle ID from the URL
+
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid vehicle ID' });
+  }
+
+  try {
+    // Check if the vehicle exists and is owned by or shared with the user
+    const { vehicle, error: accessError } = await checkVehicleAccess(
+      id, userId as string, 'view', 'id, user_id, organization_id, year, mileage'
+    );
+
+    if (accessError || !vehicle) {
+      return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+    }
+
+    const items = await getVehicleMaintenance(id, { year: vehicle.year, mileage: vehicle.mileage });
+
+    return res.status(200).json({
+      vehicle_id: id,
+      mileage: vehicle.mileage,
+      items: include_ok === 'true' ? items : items.filter(item => item.status !== 'ok')
+    });
+  } catch (error) {
+    console.error('Error in vehicle maintenance endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
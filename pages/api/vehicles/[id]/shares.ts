@@ -0,0 +1,153 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { createNotification } from '../../../../lib/notifications';
+import { checkVehicleAccess, SHARE_ROLES, VehicleAccess, VehicleRole } from '../../../../lib/vehicle-access';
+import { v4 as uuidv4 } from 'uuid';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * API endpoint for the owner of a vehicle to share it
+ * Managers can book service for the vehicle, edit it and see all its bookings;
+ * drivers can book service for it.
+ *
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId as string; // Set by withAuth middleware
+  const { id } = req.query; // Vehicle ID from the URL
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid vehicle ID' });
+  }
+
+  // Only the owner manages who the vehicle is shared with
+  let access: VehicleAccess;
+
+  try {
+    access = await checkVehicleAccess(id, userId, 'share');
+  } catch (error) {
+    console.error('Error in vehicle shares endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  const { vehicle, error: accessError } = access;
+
+  if (accessError || !vehicle) {
+    return res.status(accessError?.status ?? 404).json({ error: accessError?.message });
+  }
+
+  // Handle GET request - List invitations and shares
+  if (req.method === 'GET') {
+    try {
+      const { data, error } = await supabase
+        .from('vehicle_shares')
+        .select('*, user:user_id (id, first_name, last_name, email)')
+        .eq('vehicle_id', id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching vehicle shares:', error);
+        return res.status(500).json({ error: 'Failed to fetch vehicle shares' });
+      }
+
+      return res.status(200).json(data);
+    } catch (error) {
+      console.error('Error in vehicle shares GET endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle POST request - Invite someone by email
+  if (req.method === 'POST') {
+    try {
+      const { email, role } = req.body;
+
+      if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+        return res.status(400).json({ error: 'A valid email is required' });
+      }
+
+      if (!SHARE_ROLES.includes(role as VehicleRole)) {
+        return res.status(400).json({ error: `role must be one of: ${SHARE_ROLES.join(', ')}` });
+      }
+
+      if (vehicle.archived_at) {
+        return res.status(409).json({ error: 'Archived vehicles cannot be shared' });
+      }
+
+      // Access to fleet vehicles comes from organization membership only
+      if (vehicle.organization_id) {
+        return res.status(409).json({ error: 'Fleet vehicles are shared by adding members to the organization' });
+      }
+
+      const invitedEmail = email.trim().toLowerCase();
+
+      // Find the invitee's account, if they already have one
+      const { data: invitee } = await supabase
+        .from('profiles')
+        .select('id')
+        .ilike('email', invitedEmail.replace(/[\\%_]/g, '\\$&')) // Match case-insensitively, without wildcards
+        .maybeSingle();
+
+      if (invitee?.id === userId) {
+        return res.status(400).json({ error: 'You already own this vehicle' });
+      }
+
+      const { data, error } = await supabase
+        .from('vehicle_shares')
+        .insert({
+          id: uuidv4(),
+          vehicle_id: id,
+          invited_email: invitedEmail,
+          role,
+          status: 'pending',
+          invited_by: userId,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      // The unique index on open shares catches repeat invitations
+      if (error && error.code === '23505') {
+        return res.status(409).json({ error: 'This person already has an invitation or access to the vehicle' });
+      }
+
+      if (error) {
+        console.error('Error creating vehicle share:', error);
+        return res.status(500).json({ error: 'Failed to create vehicle share' });
+      }
+
+      if (invitee) {
+        await createNotification({
+          userId: invitee.id,
+          type: 'vehicle_share_invitation',
+          title: 'Vehicle Shared With You',
+          message: `You have been invited to use a ${vehicle.year} ${vehicle.make} ${vehicle.model} as a ${role}.`,
+          relatedId: data.id
+        });
+      } else {
+        // People without an account are invited to sign up; the share waits for them under their email
+        const { error: inviteError } = await supabase.auth.admin.inviteUserByEmail(invitedEmail, {
+          redirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/vehicle-invitations`
+        });
+
+        if (inviteError) {
+          console.error('Error sending vehicle share invitation email:', inviteError);
+        }
+      }
+
+      return res.status(201).json(data);
+    } catch (error) {
+      console.error('Error in vehicle shares POST endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
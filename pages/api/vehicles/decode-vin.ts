@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { withAuth } from '../../../utils/auth';
+import { decodeVin } from '../../../lib/vin';
+
+/**
+ * API endpoint to validate a VIN and decode its manufacturer, region and model year
+ * Decoding is done offline; make is null when the manufacturer is not in the bundled table.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Handle GET request - Decode a VIN
+  if (req.method === 'GET') {
+    try {
+      const { vin } = req.query;
+      
+      if (!vin || typeof vin !== 'string') {
+        return res.status(400).json({ error: 'vin query parameter is required' });
+      }
+      
+      const decoded = decodeVin(vin);
+      
+      if (!decoded.valid) {
+        return res.status(400).json({ error: 'Invalid VIN', errors: decoded.errors, vin: decoded.vin });
+      }
+      
+      return res.status(200).json(decoded);
+    } catch (error) {
+      console.error('Error in decode VIN endpoint:', error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+  
+  // Handle unsupported methods
+  return res.status(405).json({ error: 'Method not allowed' });
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
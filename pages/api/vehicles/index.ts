@@ -2,9 +2,14 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../../lib/supabase';
 import { withAuth } from '../../../utils/auth';
 import { v4 as uuidv4 } from 'uuid';
+import { applyVinDecoding, parseVehicleFields } from '../../../lib/vehicles';
+import { getSharedVehicleRoles, ORGANIZATION_VEHICLE_ROLES } from '../../../lib/vehicle-access';
+import { checkOrganizationAccess, getOrganizationRoles, ORGANIZATION_ADMIN_ROLES } from '../../../lib/organizations';
 
 /**
  * API endpoint to manage user vehicles
+ * Lists vehicles the user owns, that are shared with them, or that belong to
+ * an organization they are a member of.
  * 
  * @param req - Next.js API request
  * @param res - Next.js API response
@@ -15,17 +20,56 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Handle GET request - List all vehicles for the user
   if (req.method === 'GET') {
     try {
-      const { data, error } = await supabase
+      const { include_archived } = req.query;
+      
+      // Vehicles the user owns, vehicles shared with them and their organizations' vehicles
+      const sharedRoles = await getSharedVehicleRoles(userId as string);
+      const sharedIds = Object.keys(sharedRoles);
+      const organizationRoles = await getOrganizationRoles(userId as string);
+      const organizationIds = Object.keys(organizationRoles);
+      
+      // Fleet vehicles are listed through membership, even for the member who added them
+      const filters = [`and(user_id.eq.${userId},organization_id.is.null)`];
+      
+      if (sharedIds.length > 0) {
+        filters.push(`id.in.(${sharedIds.join(',')})`);
+      }
+      
+      if (organizationIds.length > 0) {
+        filters.push(`organization_id.in.(${organizationIds.join(',')})`);
+      }
+      
+      let query = supabase
         .from('vehicles')
         .select('*')
-        .eq('user_id', userId)
+        .or(filters.join(','))
         .order('created_at', { ascending: false });
       
+      // Archived vehicles are hidden unless asked for
+      if (include_archived !== 'true') {
+        query = query.is('archived_at', null);
+      }
+      
+      const { data: vehicles, error } = await query;
+      
       if (error) {
         console.error('Error fetching vehicles:', error);
         return res.status(500).json({ error: 'Failed to fetch vehicles' });
       }
       
+      const data = (vehicles ?? []).map(vehicle => {
+        const organizationRole = vehicle.organization_id ? organizationRoles[vehicle.organization_id] : undefined;
+        
+        return {
+          ...vehicle,
+          access_role: organizationRole
+            ? ORGANIZATION_VEHICLE_ROLES[organizationRole]
+            : vehicle.user_id === userId
+              ? 'owner'
+              : sharedRoles[vehicle.id]
+        };
+      });
+      
       return res.status(200).json(data);
     } catch (error) {
       console.error('Error in vehicles GET endpoint:', error);
@@ -36,12 +80,38 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Handle POST request - Add a new vehicle
   if (req.method === 'POST') {
     try {
-      const { make, model, year, license_plate, color, vin, mileage, insurance_info } = req.body;
+      const { data: fields, error: validationError } = parseVehicleFields(req.body);
+      
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      
+      // Fleet vehicles are added to an organization by its owners and admins
+      const { organization_id } = req.body;
+      
+      if (organization_id !== undefined && organization_id !== null) {
+        if (typeof organization_id !== 'string') {
+          return res.status(400).json({ error: 'organization_id must be a string' });
+        }
+        
+        const { error: organizationError } = await checkOrganizationAccess(
+          organization_id, userId as string, ORGANIZATION_ADMIN_ROLES
+        );
+        
+        if (organizationError) {
+          return res.status(organizationError.status).json({ error: organizationError.message });
+        }
+      }
+      
+      // Make and year can be left blank when the VIN provides them
+      const vinWarnings = applyVinDecoding(fields);
+      const { make, model, year, license_plate, color, vin, mileage, insurance_info } = fields;
       
       // Validate required fields
       if (!make || !model || !year || !license_plate) {
         return res.status(400).json({ 
-          error: 'Missing required fields: make, model, year, and license_plate are required' 
+          error: 'Missing required fields: make, model, year, and license_plate are required ' +
+            '(make and year can be omitted when the vin identifies them)'
         });
       }
       
@@ -71,6 +141,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
           vin,
           mileage,
           insurance_info,
+          organization_id: organization_id ?? null,
           created_at: new Date().toISOString()
         })
         .select()
@@ -81,7 +152,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         return res.status(500).json({ error: 'Failed to create vehicle' });
       }
       
-      return res.status(201).json(data);
+      return res.status(201).json(vinWarnings.length > 0 ? { ...data, vin_warnings: vinWarnings } : data);
     } catch (error) {
       console.error('Error in vehicles POST endpoint:', error);
       return res.status(500).json({ error: 'Internal server error' });
@@ -1,10 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { supabase } from '../../../lib/supabase';
 import { withAuth } from '../../../utils/auth';
+import { withIdempotency } from '../../../lib/idempotency';
+import { isInsufficientFundsError } from '../../../lib/payments';
+import { checkOrganizationAccess, ORGANIZATION_ADMIN_ROLES } from '../../../lib/organizations';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * API endpoint to manage user wallet
+ * GET ?organization_id= shows an organization's wallet to its owners and admins.
  * 
  * @param req - Next.js API request
  * @param res - Next.js API response
@@ -16,13 +20,32 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method === 'GET') {
     try {
       // Get query parameters
-      const { limit = 10, offset = 0 } = req.query;
+      const { limit = 10, offset = 0, organization_id } = req.query;
+      
+      // The wallet belongs to the user, or to the organization they manage
+      let accountId = userId as string;
+      
+      if (organization_id !== undefined) {
+        if (typeof organization_id !== 'string') {
+          return res.status(400).json({ error: 'Invalid organization ID' });
+        }
+        
+        const { error: organizationError } = await checkOrganizationAccess(
+          organization_id, userId as string, ORGANIZATION_ADMIN_ROLES
+        );
+        
+        if (organizationError) {
+          return res.status(organizationError.status).json({ error: organizationError.message });
+        }
+        
+        accountId = organization_id;
+      }
       
       // Get wallet balance
       const { data: wallet, error: walletError } = await supabase
         .from('wallets')
-        .select('balance')
-        .eq('user_id', userId)
+        .select('balance, held_balance')
+        .eq('user_id', accountId)
         .single();
       
       if (walletError && walletError.code !== 'PGRST116') { // PGRST116 is "no rows returned"
@@ -32,11 +55,12 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       
       // If wallet doesn't exist, create one with zero balance
       let balance = 0;
+      let heldBalance = 0;
       if (!wallet) {
         const { data: newWallet, error: createError } = await supabase
           .from('wallets')
           .insert({
-            user_id: userId,
+            user_id: accountId,
             balance: 0,
             created_at: new Date().toISOString()
           })
@@ -51,13 +75,14 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         balance = newWallet.balance;
       } else {
         balance = wallet.balance;
+        heldBalance = wallet.held_balance;
       }
       
       // Get recent transactions
       const { data: transactions, error: transactionsError } = await supabase
         .from('wallet_transactions')
         .select('*')
-        .eq('user_id', userId)
+        .eq('user_id', accountId)
         .order('created_at', { ascending: false })
         .range(
           Number(offset), 
@@ -73,7 +98,7 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       const { count: totalCount, error: countError } = await supabase
         .from('wallet_transactions')
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+        .eq('user_id', accountId);
         
       if (countError) {
         console.error('Error counting transactions:', countError);
@@ -81,6 +106,8 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
       
       return res.status(200).json({
         balance,
+        held_balance: heldBalance,
+        available_balance: Number(balance) - Number(heldBalance),
         transactions,
         pagination: {
           total: totalCount ?? 0,
@@ -94,22 +121,37 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
     }
   }
   
-  // Handle POST request - Add or deduct wallet balance
+  // Handle POST request - Pay from the wallet
+  // Credits only happen through verified top-ups (/api/wallet/top-up) or admin operations
   if (req.method === 'POST') {
     try {
-      const { amount, type, description, reference_id } = req.body;
+      const { amount, type = 'debit', description } = req.body;
       
       // Validate required fields
-      if (!amount || !type) {
+      if (!amount) {
         return res.status(400).json({ 
-          error: 'Missing required fields: amount and type are required' 
+          error: 'Missing required field: amount is required' 
+        });
+      }
+      
+      if (type === 'credit') {
+        return res.status(403).json({ 
+          error: 'Wallet credits are only possible through a top-up' 
         });
       }
       
       // Validate type
-      if (type !== 'credit' && type !== 'debit') {
+      if (type !== 'debit') {
+        return res.status(400).json({ 
+          error: 'Type must be "debit"' 
+        });
+      }
+      
+      // References tie transactions to bookings, top-ups and refunds, so only the server sets them;
+      // a caller's reference could pass for a booking payment and block the real one
+      if (req.body.reference_id !== undefined) {
         return res.status(400).json({ 
-          error: 'Type must be either "credit" or "debit"' 
+          error: 'reference_id cannot be set; use an Idempotency-Key header to make retries safe' 
         });
       }
       
@@ -126,15 +168,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
         p_user_id: userId,
         p_amount: numAmount,
         p_type: type,
-        p_description: description || (type === 'credit' ? 'Wallet top-up' : 'Wallet deduction'),
-        p_reference_id: reference_id || uuidv4()
+        p_description: description || 'Wallet deduction',
+        p_reference_id: uuidv4()
       });
       
       if (error) {
         console.error('Error updating wallet:', error);
         
         // Check if it's an insufficient funds error
-        if (error.message.includes('insufficient funds')) {
+        if (isInsufficientFundsError(error)) {
           return res.status(400).json({ error: 'Insufficient funds' });
         }
         
@@ -152,5 +194,5 @@ async function handler(req: NextApiRequest, res: NextApiResponse) {
   return res.status(405).json({ error: 'Method not allowed' });
 }
 
-// Wrap the handler with authentication middleware
-export default withAuth(handler);
+// Wrap the handler with authentication and idempotency middleware
+export default withAuth(withIdempotency(handler));
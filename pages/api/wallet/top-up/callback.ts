@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { getTopUpProvider } from '../../../../lib/topup-providers';
+
+/**
+ * API endpoint for payment providers to report the outcome of a top-up
+ * Not authenticated with a user token; the provider verifies its own callback.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { provider: providerName } = req.query;
+    const provider = getTopUpProvider(typeof providerName === 'string' ? providerName : undefined);
+    
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown payment provider' });
+    }
+    
+    const confirmation = await provider.verifyCallback(req);
+    
+    if (!confirmation) {
+      return res.status(401).json({ error: 'Invalid callback signature' });
+    }
+    
+    // Find the top-up this callback refers to
+    const { data: topUp, error: topUpError } = await supabase
+      .from('wallet_topups')
+      .select('id, amount, status')
+      .eq('provider', provider.name)
+      .eq('provider_reference', confirmation.providerReference)
+      .single();
+    
+    if (topUpError || !topUp) {
+      return res.status(404).json({ error: 'Top-up not found' });
+    }
+    
+    // Providers may deliver the same callback more than once
+    if (topUp.status !== 'pending') {
+      return res.status(200).json({ id: topUp.id, status: topUp.status });
+    }
+    
+    if (confirmation.status === 'failed') {
+      const { error } = await supabase
+        .from('wallet_topups')
+        .update({ status: 'failed', completed_at: new Date().toISOString() })
+        .eq('id', topUp.id)
+        .eq('status', 'pending');
+      
+      if (error) {
+        console.error('Error failing top-up:', error);
+        return res.status(500).json({ error: 'Failed to update top-up' });
+      }
+      
+      return res.status(200).json({ id: topUp.id, status: 'failed' });
+    }
+    
+    if (Number(confirmation.amount) !== Number(topUp.amount)) {
+      return res.status(400).json({ error: 'Amount does not match the top-up' });
+    }
+    
+    // Credit the wallet and mark the top-up completed in one transaction
+    const { data, error } = await supabase.rpc('complete_wallet_topup', {
+      p_topup_id: topUp.id
+    });
+    
+    if (error) {
+      console.error('Error completing top-up:', error);
+      return res.status(500).json({ error: 'Failed to complete top-up' });
+    }
+    
+    return res.status(200).json(data);
+  } catch (error) {
+    console.error('Error in wallet top-up callback endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { supabase } from '../../../../lib/supabase';
+import { withAuth } from '../../../../utils/auth';
+import { getTopUpProvider } from '../../../../lib/topup-providers';
+import { checkOrganizationAccess, ORGANIZATION_ADMIN_ROLES } from '../../../../lib/organizations';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * API endpoint to start a wallet top-up through the payment provider
+ * The wallet is credited only once the provider confirms the payment.
+ * Owners and admins top up an organization's wallet by passing organization_id.
+ * 
+ * @param req - Next.js API request
+ * @param res - Next.js API response
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const userId = req.userId; // Set by withAuth middleware
+  
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { amount, organization_id } = req.body;
+    
+    // Validate amount
+    const numAmount = Number(amount);
+    if (!amount || isNaN(numAmount) || numAmount <= 0) {
+      return res.status(400).json({ 
+        error: 'Amount must be a positive number' 
+      });
+    }
+    
+    // The wallet to credit: the user's own, or their organization's
+    let accountId = userId as string;
+    
+    if (organization_id !== undefined && organization_id !== null) {
+      if (typeof organization_id !== 'string') {
+        return res.status(400).json({ error: 'organization_id must be a string' });
+      }
+      
+      const { error: organizationError } = await checkOrganizationAccess(
+        organization_id, userId as string, ORGANIZATION_ADMIN_ROLES
+      );
+      
+      if (organizationError) {
+        return res.status(organizationError.status).json({ error: organizationError.message });
+      }
+      
+      accountId = organization_id;
+    }
+    
+    const provider = getTopUpProvider();
+    
+    if (!provider) {
+      return res.status(503).json({ error: 'Wallet top-ups are not available' });
+    }
+    
+    // Record the pending top-up before handing over to the provider
+    const topUpId = uuidv4();
+    const { error: createError } = await supabase
+      .from('wallet_topups')
+      .insert({
+        id: topUpId,
+        user_id: accountId,
+        requested_by: userId,
+        amount: numAmount,
+        provider: provider.name,
+        status: 'pending',
+        created_at: new Date().toISOString()
+      });
+    
+    if (createError) {
+      console.error('Error creating top-up:', createError);
+      return res.status(500).json({ error: 'Failed to create top-up' });
+    }
+    
+    const session = await provider.createTopUp({
+      topUpId,
+      userId: userId as string,
+      amount: numAmount
+    });
+    
+    const { data, error } = await supabase
+      .from('wallet_topups')
+      .update({ provider_reference: session.providerReference })
+      .eq('id', topUpId)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error saving top-up reference:', error);
+      return res.status(500).json({ error: 'Failed to create top-up' });
+    }
+    
+    return res.status(201).json({
+      ...data,
+      checkout_url: session.checkoutUrl
+    });
+  } catch (error) {
+    console.error('Error in wallet top-up endpoint:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Wrap the handler with authentication middleware
+export default withAuth(handler);
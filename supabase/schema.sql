@@ -1,4 +1,6 @@
 -- Create necessary tables for Pickovo backend
+-- The script can be run again on an existing database: tables created by an earlier
+-- version are brought up to date by the ALTER statements that follow them.
 
 -- Enable RLS (Row Level Security)
 ALTER DATABASE postgres SET "app.jwt_secret" TO 'your-jwt-secret-here';
@@ -16,22 +18,181 @@ CREATE TABLE IF NOT EXISTS profiles (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Create organizations table (businesses that run a fleet and pay from a shared wallet)
+-- The organization's wallet is the wallets row whose user_id is the organization id
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY,
+  name TEXT NOT NULL,
+  billing_email TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Owners and admins manage the organization, its vehicles and wallet; members book its vehicles
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_idx ON organization_members (user_id);
+
+-- Create cancellation_policies table
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+  id UUID PRIMARY KEY,
+  name TEXT NOT NULL,
+  free_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (free_window_hours >= 0), -- Cancelling at least this long before is free
+  late_fee_percent DECIMAL(5,2) NOT NULL DEFAULT 20 CHECK (late_fee_percent BETWEEN 0 AND 100), -- Charged to customers cancelling late
+  mechanic_penalty_percent DECIMAL(5,2) NOT NULL DEFAULT 10 CHECK (mechanic_penalty_percent BETWEEN 0 AND 100), -- Paid by mechanics cancelling late or not showing up
+  is_default BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO cancellation_policies (id, name, free_window_hours, late_fee_percent, mechanic_penalty_percent, is_default)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Standard', 24, 20, 10, true)
+ON CONFLICT (id) DO NOTHING;
+
 -- Create mechanics table
+-- Mechanics onboarded through /api/mechanics/apply share their id with their profile
 CREATE TABLE IF NOT EXISTS mechanics (
   id UUID PRIMARY KEY,
   name TEXT NOT NULL,
   profile_image TEXT,
   specialization TEXT,
   experience_years INTEGER,
-  rating DECIMAL(3,2) DEFAULT 0,
+  rating DECIMAL(3,2) DEFAULT 0, -- Average of published reviews, maintained by a trigger on reviews
+  review_count INTEGER DEFAULT 0,
   hourly_rate DECIMAL(10,2),
-  location TEXT, -- Format: "latitude,longitude"
-  availability_hours JSONB, -- JSON object with availability schedule
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  availability_hours JSONB, -- Weekly schedule in UTC, e.g. {"monday": [{"start": "09:00", "end": "17:00"}]}
   is_available BOOLEAN DEFAULT true,
+  cancellation_policy_id UUID REFERENCES cancellation_policies(id), -- NULL uses the default policy
+  approval_status TEXT DEFAULT 'approved' CHECK (approval_status IN ('pending', 'approved', 'rejected')),
+  rejection_reason TEXT,
+  approved_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Columns added to mechanics since it was first created
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID REFERENCES cancellation_policies(id);
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS approval_status TEXT DEFAULT 'approved' CHECK (approval_status IN ('pending', 'approved', 'rejected'));
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS review_count INTEGER DEFAULT 0;
+
+-- Mechanics created before coordinates were split out have a "latitude,longitude" location
+-- string instead; add the columns and copy the coordinates over. Malformed or out-of-range
+-- strings are left as they are, and location is kept so nothing is lost.
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE mechanics ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'mechanics' AND column_name = 'location'
+  ) THEN
+    EXECUTE $migrate$
+      UPDATE mechanics
+      SET latitude = coordinates.latitude, longitude = coordinates.longitude
+      FROM (
+        -- The pattern is checked inside CASE so a malformed string is never cast
+        SELECT id,
+          CASE WHEN location ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*,\s*-?[0-9]+(\.[0-9]+)?\s*$'
+            THEN split_part(location, ',', 1)::DOUBLE PRECISION END AS latitude,
+          CASE WHEN location ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*,\s*-?[0-9]+(\.[0-9]+)?\s*$'
+            THEN split_part(location, ',', 2)::DOUBLE PRECISION END AS longitude
+        FROM mechanics
+        WHERE latitude IS NULL AND longitude IS NULL
+      ) AS coordinates
+      WHERE mechanics.id = coordinates.id
+      AND coordinates.latitude BETWEEN -90 AND 90
+      AND coordinates.longitude BETWEEN -180 AND 180
+    $migrate$;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS mechanics_coordinates_idx ON mechanics (latitude, longitude);
+
+-- Create service catalog tables
+CREATE TABLE IF NOT EXISTS service_categories (
+  id UUID PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS services (
+  id UUID PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES service_categories(id) ON DELETE RESTRICT,
+  code TEXT NOT NULL UNIQUE, -- Stored in bookings.service_type
+  name TEXT NOT NULL,
+  description TEXT,
+  estimated_duration_minutes INTEGER NOT NULL CHECK (estimated_duration_minutes > 0 AND estimated_duration_minutes <= 480),
+  base_price DECIMAL(10,2) NOT NULL CHECK (base_price >= 0),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Services each mechanic offers, optionally at their own price
+CREATE TABLE IF NOT EXISTS mechanic_services (
+  mechanic_id UUID NOT NULL REFERENCES mechanics(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  price_override DECIMAL(10,2) CHECK (price_override >= 0), -- NULL uses the base price
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (mechanic_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS mechanic_services_service_idx ON mechanic_services (service_id);
+
+INSERT INTO service_categories (id, slug, name, description)
+VALUES
+  ('00000000-0000-0000-0000-000000000101', 'maintenance', 'Maintenance', 'Routine servicing and fluid changes'),
+  ('00000000-0000-0000-0000-000000000102', 'repairs', 'Repairs', 'Mechanical and electrical repairs'),
+  ('00000000-0000-0000-0000-000000000103', 'diagnostics', 'Diagnostics', 'Fault finding and inspections')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO services (id, category_id, code, name, description, estimated_duration_minutes, base_price)
+VALUES
+  ('00000000-0000-0000-0000-000000000201', '00000000-0000-0000-0000-000000000101', 'oil_change', 'Oil change', 'Engine oil and filter replacement', 60, 40.00),
+  ('00000000-0000-0000-0000-000000000202', '00000000-0000-0000-0000-000000000101', 'full_service', 'Full service', 'Oil, filters, fluids and a multi-point check', 180, 150.00),
+  ('00000000-0000-0000-0000-000000000203', '00000000-0000-0000-0000-000000000101', 'tire_rotation', 'Tire rotation', 'Rotate and balance all four tires', 60, 30.00),
+  ('00000000-0000-0000-0000-000000000204', '00000000-0000-0000-0000-000000000102', 'brake_pads', 'Brake pad replacement', 'Replace front or rear brake pads', 120, 120.00),
+  ('00000000-0000-0000-0000-000000000205', '00000000-0000-0000-0000-000000000102', 'battery_replacement', 'Battery replacement', 'Fit and test a new battery', 60, 50.00),
+  ('00000000-0000-0000-0000-000000000206', '00000000-0000-0000-0000-000000000103', 'diagnostic_scan', 'Diagnostic scan', 'OBD scan and fault report', 60, 45.00),
+  ('00000000-0000-0000-0000-000000000207', '00000000-0000-0000-0000-000000000103', 'pre_purchase_inspection', 'Pre-purchase inspection', 'Inspection of a used vehicle before purchase', 120, 90.00)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create maintenance_schedules table (how often each service is due)
+-- A service is due after interval_km kilometres or interval_months months, whichever comes first
+CREATE TABLE IF NOT EXISTS maintenance_schedules (
+  id UUID PRIMARY KEY,
+  service_id UUID NOT NULL UNIQUE REFERENCES services(id) ON DELETE CASCADE,
+  interval_km INTEGER CHECK (interval_km > 0),
+  interval_months INTEGER CHECK (interval_months > 0),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (interval_km IS NOT NULL OR interval_months IS NOT NULL)
+);
+
+INSERT INTO maintenance_schedules (id, service_id, interval_km, interval_months) VALUES
+  ('00000000-0000-0000-0000-000000000301', '00000000-0000-0000-0000-000000000201', 10000, 12),
+  ('00000000-0000-0000-0000-000000000302', '00000000-0000-0000-0000-000000000202', 20000, 24),
+  ('00000000-0000-0000-0000-000000000303', '00000000-0000-0000-0000-000000000203', 10000, 6),
+  ('00000000-0000-0000-0000-000000000304', '00000000-0000-0000-0000-000000000204', 40000, NULL),
+  ('00000000-0000-0000-0000-000000000305', '00000000-0000-0000-0000-000000000205', NULL, 48)
+ON CONFLICT (id) DO NOTHING;
+
 -- Create vehicles table
 CREATE TABLE IF NOT EXISTS vehicles (
   id UUID PRIMARY KEY,
@@ -43,26 +204,146 @@ CREATE TABLE IF NOT EXISTS vehicles (
   color TEXT,
   vin TEXT,
   mileage INTEGER,
-  insurance_info JSONB,
+  insurance_info JSONB, -- provider, policy_number, coverage_type, start_date, expiry_date, document_reference
+  organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL, -- Set for fleet vehicles, which the organization owns; user_id then records who added it
+  archived_at TIMESTAMPTZ, -- Set instead of deleting vehicles with booking history
+  maintenance_checked_at TIMESTAMPTZ, -- Last run of the maintenance reminder job for this vehicle
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Columns added to vehicles since it was first created
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS maintenance_checked_at TIMESTAMPTZ;
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- The insurance expiry job scans vehicles by expiry date
+CREATE INDEX IF NOT EXISTS vehicles_insurance_expiry_idx
+  ON vehicles ((insurance_info->>'expiry_date'))
+  WHERE archived_at IS NULL;
+
+-- Create vehicle_service_entries table (work done outside the platform, logged by the owner)
+CREATE TABLE IF NOT EXISTS vehicle_service_entries (
+  id UUID PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  performed_at DATE NOT NULL,
+  service_type TEXT NOT NULL, -- Catalog code, or a free description of the work
+  description TEXT,
+  mileage INTEGER CHECK (mileage >= 0),
+  cost DECIMAL(10,2) CHECK (cost >= 0),
+  provider TEXT, -- Workshop that did the work
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS vehicle_service_entries_vehicle_idx
+  ON vehicle_service_entries (vehicle_id, performed_at);
+
+-- Create vehicle_shares table (other users a vehicle's owner lets use it)
+-- Invitations are addressed to an email and linked to the user who accepts them
+CREATE TABLE IF NOT EXISTS vehicle_shares (
+  id UUID PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  invited_email TEXT NOT NULL, -- Stored lower-case
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE, -- Set on acceptance
+  role TEXT NOT NULL CHECK (role IN ('manager', 'driver')),
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- One open invitation or active share per vehicle and person
+CREATE UNIQUE INDEX IF NOT EXISTS vehicle_shares_open_idx
+  ON vehicle_shares (vehicle_id, invited_email)
+  WHERE status IN ('pending', 'accepted');
+
+CREATE INDEX IF NOT EXISTS vehicle_shares_user_idx ON vehicle_shares (user_id) WHERE status = 'accepted';
+
+-- Create vehicle_alerts table (alerts already sent for a vehicle, so each is sent once)
+CREATE TABLE IF NOT EXISTS vehicle_alerts (
+  id UUID PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL, -- e.g. maintenance_overdue, insurance_expiry_30d
+  alert_key TEXT NOT NULL, -- Identifies the occurrence, e.g. the service and its due point
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (vehicle_id, alert_type, alert_key)
+);
+
 -- Create bookings table
 CREATE TABLE IF NOT EXISTS bookings (
   id UUID PRIMARY KEY,
   customer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
   mechanic_id UUID NOT NULL REFERENCES mechanics(id) ON DELETE CASCADE,
   vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL, -- Pays for the booking instead of the customer
   scheduled_time TIMESTAMPTZ NOT NULL,
-  service_type TEXT NOT NULL,
+  service_type TEXT NOT NULL, -- Catalog code of the service
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  duration_minutes INTEGER DEFAULT 60 CHECK (duration_minutes > 0),
+  estimated_price DECIMAL(10,2), -- Mechanic's price for the service when booked
   status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'in_progress', 'completed', 'cancelled')),
   notes TEXT,
+  mileage_at_service INTEGER CHECK (mileage_at_service >= 0), -- Odometer reading recorded by the mechanic
   total_amount DECIMAL(10,2),
+  payment_status TEXT DEFAULT 'unpaid' CHECK (payment_status IN ('unpaid', 'payment_pending', 'paid')),
+  paid_at TIMESTAMPTZ,
+  cancelled_by TEXT CHECK (cancelled_by IN ('customer', 'mechanic', 'admin', 'system')),
+  cancellation_reason TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancellation_fee DECIMAL(10,2) DEFAULT 0, -- Charged to the customer under the cancellation policy
+  mechanic_penalty DECIMAL(10,2) DEFAULT 0, -- Paid by the mechanic to the customer under the cancellation policy
+  mechanic_penalty_paid_at TIMESTAMPTZ, -- Unset while the mechanic still owes the penalty
+  reminder_24h_sent_at TIMESTAMPTZ, -- Set by the scheduled reminder job
+  reminder_1h_sent_at TIMESTAMPTZ,
+  no_show_flagged_at TIMESTAMPTZ, -- Set when a confirmed booking never started
+  no_show_party TEXT CHECK (no_show_party IN ('customer', 'mechanic')), -- Set when support confirms who missed the booking
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Columns added to bookings since it was first created
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS payment_status TEXT DEFAULT 'unpaid' CHECK (payment_status IN ('unpaid', 'payment_pending', 'paid'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_by TEXT CHECK (cancelled_by IN ('customer', 'mechanic', 'admin', 'system'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_fee DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS mechanic_penalty DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS mechanic_penalty_paid_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS no_show_party TEXT CHECK (no_show_party IN ('customer', 'mechanic'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS service_id UUID REFERENCES services(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS duration_minutes INTEGER DEFAULT 60 CHECK (duration_minutes > 0);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS estimated_price DECIMAL(10,2);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS reminder_24h_sent_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS reminder_1h_sent_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS no_show_flagged_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS mileage_at_service INTEGER CHECK (mileage_at_service >= 0);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- Scheduled jobs scan bookings by status and time
+CREATE INDEX IF NOT EXISTS bookings_status_scheduled_time_idx ON bookings (status, scheduled_time);
+
+-- The time a booking occupies. Adding whole minutes does not depend on the time zone,
+-- so the function is immutable and can be used by the exclusion constraint below
+CREATE OR REPLACE FUNCTION booking_time_range(
+  p_scheduled_time TIMESTAMPTZ,
+  p_duration_minutes INTEGER
+) RETURNS TSTZRANGE AS $$
+  SELECT tstzrange(p_scheduled_time, p_scheduled_time + make_interval(mins => COALESCE(p_duration_minutes, 60)));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Prevent overlapping bookings for the same mechanic, including concurrent requests
+-- for different but overlapping times; cancelled bookings free their time
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings ADD CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+  mechanic_id WITH =,
+  booking_time_range(scheduled_time, duration_minutes) WITH &&
+) WHERE (status <> 'cancelled');
+
 -- Create messages table
 CREATE TABLE IF NOT EXISTS messages (
   id UUID PRIMARY KEY,
@@ -76,24 +357,126 @@ CREATE TABLE IF NOT EXISTS messages (
 );
 
 -- Create wallets table
+-- user_id is the account the wallet belongs to: a profile or an organization
 CREATE TABLE IF NOT EXISTS wallets (
-  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id UUID PRIMARY KEY,
   balance DECIMAL(10,2) DEFAULT 0 CHECK (balance >= 0),
+  held_balance DECIMAL(10,2) DEFAULT 0 CHECK (held_balance >= 0), -- Part of the balance reserved for confirmed bookings
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  updated_at TIMESTAMPTZ DEFAULT NOW()
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (held_balance <= balance)
 );
 
+-- Changes to wallets since it was first created
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS held_balance DECIMAL(10,2) DEFAULT 0 CHECK (held_balance >= 0);
+ALTER TABLE wallets DROP CONSTRAINT IF EXISTS wallets_check;
+ALTER TABLE wallets ADD CONSTRAINT wallets_check CHECK (held_balance <= balance);
+ALTER TABLE wallets DROP CONSTRAINT IF EXISTS wallets_user_id_fkey;
+
 -- Create wallet_transactions table
 CREATE TABLE IF NOT EXISTS wallet_transactions (
   id UUID PRIMARY KEY,
-  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL, -- Profile or organization id, as in wallets
   amount DECIMAL(10,2) NOT NULL,
-  type TEXT NOT NULL CHECK (type IN ('credit', 'debit')),
+  type TEXT NOT NULL CHECK (type IN ('credit', 'debit', 'hold', 'release', 'capture', 'refund')),
   description TEXT,
   reference_id UUID,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Changes to wallet_transactions since it was first created
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_type_check;
+ALTER TABLE wallet_transactions ADD CONSTRAINT wallet_transactions_type_check
+  CHECK (type IN ('credit', 'debit', 'hold', 'release', 'capture', 'refund'));
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_user_id_fkey;
+
+-- Create wallet_holds table (funds reserved for a confirmed booking)
+CREATE TABLE IF NOT EXISTS wallet_holds (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL, -- Profile or organization id, as in wallets
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  status TEXT DEFAULT 'held' CHECK (status IN ('held', 'captured', 'released')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Holds of organization wallets have no profile
+ALTER TABLE wallet_holds DROP CONSTRAINT IF EXISTS wallet_holds_user_id_fkey;
+
+-- Create wallet_topups table (payments collected by a top-up provider)
+CREATE TABLE IF NOT EXISTS wallet_topups (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL, -- Profile or organization id, as in wallets
+  requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  provider TEXT NOT NULL,
+  provider_reference TEXT,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (provider, provider_reference)
+);
+
+-- Top-ups of organization wallets have no profile, and record who asked for them
+ALTER TABLE wallet_topups DROP CONSTRAINT IF EXISTS wallet_topups_user_id_fkey;
+ALTER TABLE wallet_topups ADD COLUMN IF NOT EXISTS requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- A reference can only be used once per user and transaction type
+-- Refunds reference the original debit, which can be partially refunded several times
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_transactions_user_reference_idx
+  ON wallet_transactions (user_id, type, reference_id)
+  WHERE reference_id IS NOT NULL AND type <> 'refund';
+
+-- Create booking_refunds table (money returned to the customer of a booking)
+CREATE TABLE IF NOT EXISTS booking_refunds (
+  id UUID PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  initiated_by UUID NOT NULL REFERENCES profiles(id),
+  charged_to_mechanic BOOLEAN NOT NULL DEFAULT true,
+  payment_transaction_id UUID NOT NULL REFERENCES wallet_transactions(id),
+  refund_transaction_id UUID NOT NULL REFERENCES wallet_transactions(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create booking_reschedules table (proposals to move a booking, kept as history)
+CREATE TABLE IF NOT EXISTS booking_reschedules (
+  id UUID PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  proposed_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  proposer_role TEXT NOT NULL CHECK (proposer_role IN ('customer', 'mechanic')),
+  previous_time TIMESTAMPTZ NOT NULL, -- Booking time when the proposal was made
+  proposed_time TIMESTAMPTZ NOT NULL,
+  message TEXT,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'countered', 'withdrawn')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one proposal can await an answer at a time
+CREATE UNIQUE INDEX IF NOT EXISTS booking_reschedules_pending_idx
+  ON booking_reschedules (booking_id)
+  WHERE status = 'pending';
+
+-- Create booking_events table (audit trail of booking changes)
+CREATE TABLE IF NOT EXISTS booking_events (
+  id UUID PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL, -- NULL for system jobs
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('customer', 'mechanic', 'admin', 'system')),
+  event_type TEXT NOT NULL CHECK (event_type IN ('created', 'status_changed', 'notes_updated', 'amount_changed', 'rescheduled', 'no_show_flagged')),
+  field TEXT, -- Booking column that changed, if any
+  old_value JSONB,
+  new_value JSONB,
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS booking_events_booking_idx ON booking_events (booking_id, created_at);
+
 -- Create notifications table
 CREATE TABLE IF NOT EXISTS notifications (
   id UUID PRIMARY KEY,
@@ -106,6 +489,84 @@ CREATE TABLE IF NOT EXISTS notifications (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Create reviews table (one per completed booking)
+CREATE TABLE IF NOT EXISTS reviews (
+  id UUID PRIMARY KEY,
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  mechanic_id UUID NOT NULL REFERENCES mechanics(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  mechanic_reply TEXT,
+  replied_at TIMESTAMPTZ,
+  status TEXT DEFAULT 'published' CHECK (status IN ('published', 'hidden')),
+  moderation_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS reviews_mechanic_idx ON reviews (mechanic_id, created_at DESC);
+
+-- Create booking_quotes table (itemised estimates the customer approves before work starts)
+CREATE TABLE IF NOT EXISTS booking_quotes (
+  id UUID PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  mechanic_id UUID NOT NULL REFERENCES mechanics(id) ON DELETE CASCADE,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'superseded')),
+  subtotal DECIMAL(10,2) NOT NULL CHECK (subtotal >= 0),
+  tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100), -- Percentage applied to the subtotal
+  tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (tax_amount >= 0),
+  total DECIMAL(10,2) NOT NULL CHECK (total > 0),
+  notes TEXT,
+  rejection_reason TEXT,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one quote awaiting an answer and one approved quote per booking
+CREATE UNIQUE INDEX IF NOT EXISTS booking_quotes_pending_idx
+  ON booking_quotes (booking_id)
+  WHERE status = 'pending';
+
+CREATE UNIQUE INDEX IF NOT EXISTS booking_quotes_approved_idx
+  ON booking_quotes (booking_id)
+  WHERE status = 'approved';
+
+CREATE TABLE IF NOT EXISTS booking_quote_items (
+  id UUID PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES booking_quotes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('part', 'labour', 'fee')),
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0), -- Hours for labour
+  unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price >= 0),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  UNIQUE (quote_id, position)
+);
+
+-- Create invoices table (issued once per completed booking and never modified)
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE DEFAULT 'INV-' || LPAD(nextval('invoice_number_seq')::TEXT, 6, '0'),
+  booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE RESTRICT,
+  quote_id UUID REFERENCES booking_quotes(id) ON DELETE RESTRICT,
+  customer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  mechanic_id UUID NOT NULL REFERENCES mechanics(id) ON DELETE RESTRICT,
+  customer_name TEXT,
+  mechanic_name TEXT,
+  vehicle_description TEXT,
+  service_type TEXT NOT NULL,
+  line_items JSONB NOT NULL, -- Snapshot of the approved quote items
+  subtotal DECIMAL(10,2) NOT NULL,
+  tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total DECIMAL(10,2) NOT NULL,
+  issued_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Create stored procedure for wallet operations
 CREATE OR REPLACE FUNCTION update_wallet_balance(
   p_user_id UUID,
@@ -117,6 +578,7 @@ CREATE OR REPLACE FUNCTION update_wallet_balance(
 DECLARE
   v_wallet_exists BOOLEAN;
   v_current_balance DECIMAL;
+  v_held_balance DECIMAL;
   v_new_balance DECIMAL;
   v_transaction_id UUID;
   v_result JSONB;
@@ -131,19 +593,28 @@ BEGIN
   END IF;
   
   -- Get current balance
-  SELECT balance INTO v_current_balance FROM wallets WHERE user_id = p_user_id;
+  SELECT balance, held_balance INTO v_current_balance, v_held_balance
+  FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  
+  -- Reject reused references so retried requests cannot move money twice
+  IF p_reference_id IS NOT NULL AND p_type <> 'refund' AND EXISTS(
+    SELECT 1 FROM wallet_transactions
+    WHERE user_id = p_user_id AND type = p_type AND reference_id = p_reference_id
+  ) THEN
+    RAISE EXCEPTION 'Duplicate reference_id % for user %', p_reference_id, p_user_id;
+  END IF;
   
   -- Calculate new balance
-  IF p_type = 'credit' THEN
+  IF p_type IN ('credit', 'refund') THEN
     v_new_balance := v_current_balance + p_amount;
-  ELSIF p_type = 'debit' THEN
+  ELSIF p_type IN ('debit', 'capture') THEN
     v_new_balance := v_current_balance - p_amount;
-    -- Check if sufficient funds
-    IF v_new_balance < 0 THEN
-      RAISE EXCEPTION 'Insufficient funds: current balance % is less than debit amount %', v_current_balance, p_amount;
+    -- Check if sufficient funds (held funds cannot be spent)
+    IF v_new_balance < v_held_balance THEN
+      RAISE EXCEPTION 'Insufficient funds: available balance % is less than debit amount %', v_current_balance - v_held_balance, p_amount;
     END IF;
   ELSE
-    RAISE EXCEPTION 'Invalid transaction type: must be credit or debit';
+    RAISE EXCEPTION 'Invalid transaction type: must be credit, debit, capture or refund';
   END IF;
   
   -- Update wallet balance
@@ -171,53 +642,850 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Reserve funds in a customer's wallet for a booking
+CREATE OR REPLACE FUNCTION place_wallet_hold(
+  p_user_id UUID,
+  p_booking_id UUID,
+  p_amount DECIMAL
+) RETURNS JSONB AS $$
+DECLARE
+  v_current_balance DECIMAL;
+  v_held_balance DECIMAL;
+  v_transaction_id UUID;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Hold amount must be positive';
+  END IF;
+  
+  INSERT INTO wallets (user_id, balance, held_balance, created_at, updated_at)
+  VALUES (p_user_id, 0, 0, NOW(), NOW())
+  ON CONFLICT (user_id) DO NOTHING;
+  
+  SELECT balance, held_balance INTO v_current_balance, v_held_balance
+  FROM wallets WHERE user_id = p_user_id FOR UPDATE;
+  
+  IF v_current_balance - v_held_balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient funds: available balance % is less than hold amount %', v_current_balance - v_held_balance, p_amount;
+  END IF;
+  
+  INSERT INTO wallet_holds (id, user_id, booking_id, amount, status, created_at, updated_at)
+  VALUES (gen_random_uuid(), p_user_id, p_booking_id, p_amount, 'held', NOW(), NOW());
+  
+  UPDATE wallets
+  SET held_balance = held_balance + p_amount, updated_at = NOW()
+  WHERE user_id = p_user_id;
+  
+  v_transaction_id := gen_random_uuid();
+  INSERT INTO wallet_transactions (id, user_id, amount, type, description, reference_id, created_at)
+  VALUES (v_transaction_id, p_user_id, p_amount, 'hold', 'Funds reserved for booking', p_booking_id, NOW());
+  
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'user_id', p_user_id,
+    'booking_id', p_booking_id,
+    'amount', p_amount,
+    'type', 'hold',
+    'available_balance', v_current_balance - v_held_balance - p_amount,
+    'created_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Release the active hold of a booking, if any
+CREATE OR REPLACE FUNCTION release_wallet_hold(
+  p_booking_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_hold wallet_holds%ROWTYPE;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_hold FROM wallet_holds
+  WHERE booking_id = p_booking_id AND status = 'held'
+  FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  
+  UPDATE wallets
+  SET held_balance = held_balance - v_hold.amount, updated_at = NOW()
+  WHERE user_id = v_hold.user_id;
+  
+  UPDATE wallet_holds SET status = 'released', updated_at = NOW() WHERE id = v_hold.id;
+  
+  v_transaction_id := gen_random_uuid();
+  INSERT INTO wallet_transactions (id, user_id, amount, type, description, reference_id, created_at)
+  VALUES (v_transaction_id, v_hold.user_id, v_hold.amount, 'release', 'Reserved funds released', p_booking_id, NOW());
+  
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'user_id', v_hold.user_id,
+    'booking_id', p_booking_id,
+    'amount', v_hold.amount,
+    'type', 'release',
+    'created_at', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Settle a completed booking: capture or debit the payer, credit the mechanic and
+-- deduct the platform commission from the mechanic, all in one transaction.
+-- The payer is the booking's organization if it has one, otherwise the customer.
+-- Every wallet transaction carries the booking id as its reference_id.
+CREATE OR REPLACE FUNCTION settle_booking_payment(
+  p_booking_id UUID,
+  p_commission_rate DECIMAL
+) RETURNS JSONB AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_hold wallet_holds%ROWTYPE;
+  v_commission DECIMAL;
+  v_customer_debit JSONB;
+  v_mechanic_credit JSONB;
+  v_commission_debit JSONB;
+BEGIN
+  -- Lock the booking so concurrent settlements cannot both succeed
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id;
+  END IF;
+  
+  IF v_booking.status <> 'completed' THEN
+    RAISE EXCEPTION 'Booking % is not completed', p_booking_id;
+  END IF;
+  
+  IF v_booking.payment_status = 'paid' THEN
+    RAISE EXCEPTION 'Booking % is already paid', p_booking_id;
+  END IF;
+  
+  IF v_booking.total_amount IS NULL OR v_booking.total_amount <= 0 THEN
+    RAISE EXCEPTION 'Booking % has no amount to charge', p_booking_id;
+  END IF;
+  
+  v_commission := ROUND(v_booking.total_amount * p_commission_rate, 2);
+  
+  -- Turn the hold placed at confirmation into the actual payment
+  SELECT * INTO v_hold FROM wallet_holds
+  WHERE booking_id = p_booking_id AND status = 'held'
+  FOR UPDATE;
+  
+  IF FOUND THEN
+    UPDATE wallets
+    SET held_balance = held_balance - v_hold.amount, updated_at = NOW()
+    WHERE user_id = v_hold.user_id;
+    
+    UPDATE wallet_holds SET status = 'captured', updated_at = NOW() WHERE id = v_hold.id;
+  END IF;
+  
+  -- Raises "Insufficient funds" and rolls everything back if the payer cannot pay
+  v_customer_debit := update_wallet_balance(
+    COALESCE(v_booking.organization_id, v_booking.customer_id), v_booking.total_amount,
+    CASE WHEN v_hold.id IS NULL THEN 'debit' ELSE 'capture' END,
+    'Payment for ' || v_booking.service_type, p_booking_id
+  );
+  
+  v_mechanic_credit := update_wallet_balance(
+    v_booking.mechanic_id, v_booking.total_amount, 'credit',
+    'Earnings for ' || v_booking.service_type, p_booking_id
+  );
+  
+  IF v_commission > 0 THEN
+    v_commission_debit := update_wallet_balance(
+      v_booking.mechanic_id, v_commission, 'debit',
+      'Platform commission', p_booking_id
+    );
+  END IF;
+  
+  UPDATE bookings
+  SET payment_status = 'paid', paid_at = NOW(), updated_at = NOW()
+  WHERE id = p_booking_id;
+  
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'amount', v_booking.total_amount,
+    'commission', v_commission,
+    'mechanic_earnings', v_booking.total_amount - v_commission,
+    'customer_transaction', v_customer_debit,
+    'mechanic_transaction', v_mechanic_credit,
+    'commission_transaction', v_commission_debit
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Credit the wallet for a top-up the provider has confirmed
+-- The top-up id is the transaction's reference_id, so a top-up is credited at most once
+CREATE OR REPLACE FUNCTION complete_wallet_topup(
+  p_topup_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_topup wallet_topups%ROWTYPE;
+  v_transaction JSONB;
+BEGIN
+  SELECT * INTO v_topup FROM wallet_topups WHERE id = p_topup_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Top-up % not found', p_topup_id;
+  END IF;
+  
+  IF v_topup.status <> 'pending' THEN
+    RETURN jsonb_build_object('id', v_topup.id, 'status', v_topup.status);
+  END IF;
+  
+  v_transaction := update_wallet_balance(
+    v_topup.user_id, v_topup.amount, 'credit', 'Wallet top-up', v_topup.id
+  );
+  
+  UPDATE wallet_topups SET status = 'completed', completed_at = NOW() WHERE id = p_topup_id;
+  
+  RETURN jsonb_build_object(
+    'id', v_topup.id,
+    'status', 'completed',
+    'transaction', v_transaction
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Collect the customer's fee recorded on a cancelled booking: the late cancellation
+-- or no-show fee goes to the mechanic. Organization bookings pay it through the
+-- organization's wallet. Any hold on the booking is released first so it can cover the fee.
+-- The mechanic's penalty is collected separately by charge_mechanic_penalty, so the
+-- customer's settlement never depends on the mechanic's balance.
+CREATE OR REPLACE FUNCTION charge_cancellation_fees(
+  p_booking_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_payer_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id;
+  END IF;
+  
+  IF v_booking.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Booking % is not cancelled', p_booking_id;
+  END IF;
+  
+  IF v_booking.payment_status = 'paid' THEN
+    RAISE EXCEPTION 'Booking % is already paid', p_booking_id;
+  END IF;
+  
+  PERFORM release_wallet_hold(p_booking_id);
+  
+  v_payer_id := COALESCE(v_booking.organization_id, v_booking.customer_id);
+  
+  IF v_booking.cancellation_fee > 0 THEN
+    PERFORM update_wallet_balance(
+      v_payer_id, v_booking.cancellation_fee, 'debit',
+      CASE WHEN v_booking.no_show_party = 'customer' THEN 'No-show fee' ELSE 'Late cancellation fee' END,
+      p_booking_id
+    );
+    PERFORM update_wallet_balance(
+      v_booking.mechanic_id, v_booking.cancellation_fee, 'credit',
+      CASE WHEN v_booking.no_show_party = 'customer' THEN 'No-show fee' ELSE 'Late cancellation fee' END,
+      p_booking_id
+    );
+  END IF;
+  
+  UPDATE bookings
+  SET payment_status = 'paid', paid_at = NOW(), updated_at = NOW()
+  WHERE id = p_booking_id;
+  
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'cancellation_fee', v_booking.cancellation_fee
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Collect the mechanic's penalty recorded on a cancelled booking; it goes to the
+-- customer, or to the organization for organization bookings. Until it is collected
+-- the penalty stays owed, with mechanic_penalty_paid_at unset.
+CREATE OR REPLACE FUNCTION charge_mechanic_penalty(
+  p_booking_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id;
+  END IF;
+  
+  IF v_booking.status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Booking % is not cancelled', p_booking_id;
+  END IF;
+  
+  IF COALESCE(v_booking.mechanic_penalty, 0) <= 0 OR v_booking.mechanic_penalty_paid_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Booking % has no penalty to collect', p_booking_id;
+  END IF;
+  
+  PERFORM update_wallet_balance(
+    v_booking.mechanic_id, v_booking.mechanic_penalty, 'debit',
+    CASE WHEN v_booking.no_show_party = 'mechanic' THEN 'No-show penalty' ELSE 'Cancellation penalty' END,
+    p_booking_id
+  );
+  PERFORM update_wallet_balance(
+    COALESCE(v_booking.organization_id, v_booking.customer_id), v_booking.mechanic_penalty, 'credit',
+    CASE WHEN v_booking.no_show_party = 'mechanic' THEN 'Compensation for missed booking' ELSE 'Compensation for cancelled booking' END,
+    p_booking_id
+  );
+  
+  UPDATE bookings
+  SET mechanic_penalty_paid_at = NOW(), updated_at = NOW()
+  WHERE id = p_booking_id;
+  
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'mechanic_penalty', v_booking.mechanic_penalty
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Refund (part of) what a customer paid for a booking
+-- The refund credit references the original payment transaction, and cumulative
+-- refunds can never exceed what was paid. When p_charge_mechanic is set the
+-- amount is taken back from the mechanic's wallet, otherwise the platform covers it.
+-- Refunds go to whoever paid: the booking's organization, or the customer.
+CREATE OR REPLACE FUNCTION refund_booking(
+  p_booking_id UUID,
+  p_amount DECIMAL,
+  p_reason TEXT,
+  p_initiated_by UUID,
+  p_charge_mechanic BOOLEAN
+) RETURNS JSONB AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_payer_id UUID;
+  v_payment wallet_transactions%ROWTYPE;
+  v_paid DECIMAL;
+  v_refunded DECIMAL;
+  v_amount DECIMAL;
+  v_refund_id UUID;
+  v_refund_credit JSONB;
+  v_mechanic_debit JSONB;
+BEGIN
+  -- Lock the booking so concurrent refunds cannot exceed the cap together
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id;
+  END IF;
+  
+  v_payer_id := COALESCE(v_booking.organization_id, v_booking.customer_id);
+  
+  -- The earliest payment is the one refunds are linked to
+  SELECT * INTO v_payment FROM wallet_transactions
+  WHERE user_id = v_payer_id
+    AND reference_id = p_booking_id
+    AND type IN ('debit', 'capture')
+  ORDER BY created_at
+  LIMIT 1;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Nothing to refund: booking % has no payment', p_booking_id;
+  END IF;
+  
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM wallet_transactions
+  WHERE user_id = v_payer_id
+    AND reference_id = p_booking_id
+    AND type IN ('debit', 'capture');
+  
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded FROM booking_refunds
+  WHERE booking_id = p_booking_id;
+  
+  v_amount := COALESCE(p_amount, v_paid - v_refunded);
+  
+  IF v_amount <= 0 OR v_amount > v_paid - v_refunded THEN
+    RAISE EXCEPTION 'Refund amount exceeds refundable amount %', v_paid - v_refunded;
+  END IF;
+  
+  v_refund_id := gen_random_uuid();
+  
+  -- Raises "Insufficient funds" and rolls everything back if the mechanic cannot cover it
+  IF p_charge_mechanic THEN
+    v_mechanic_debit := update_wallet_balance(
+      v_booking.mechanic_id, v_amount, 'debit',
+      'Refund to customer for ' || v_booking.service_type, v_refund_id
+    );
+  END IF;
+  
+  v_refund_credit := update_wallet_balance(
+    v_payer_id, v_amount, 'refund',
+    'Refund for ' || v_booking.service_type, v_payment.id
+  );
+  
+  INSERT INTO booking_refunds (
+    id, booking_id, amount, reason, initiated_by, charged_to_mechanic,
+    payment_transaction_id, refund_transaction_id, created_at
+  ) VALUES (
+    v_refund_id, p_booking_id, v_amount, p_reason, p_initiated_by, p_charge_mechanic,
+    v_payment.id, (v_refund_credit->>'transaction_id')::UUID, NOW()
+  );
+  
+  RETURN jsonb_build_object(
+    'refund_id', v_refund_id,
+    'booking_id', p_booking_id,
+    'amount', v_amount,
+    'total_paid', v_paid,
+    'total_refunded', v_refunded + v_amount,
+    'refund_transaction', v_refund_credit,
+    'mechanic_transaction', v_mechanic_debit
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Wallet functions move money and must only be called by the backend (service role)
+REVOKE EXECUTE ON FUNCTION update_wallet_balance(UUID, DECIMAL, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION place_wallet_hold(UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_wallet_hold(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_booking_payment(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_wallet_topup(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION charge_cancellation_fees(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION charge_mechanic_penalty(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_booking(UUID, DECIMAL, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Search mechanics within a radius using great-circle (haversine) distance
+-- Filters, sorting and pagination are applied on top of the result by PostgREST
+CREATE OR REPLACE FUNCTION search_mechanics_nearby(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION
+) RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  profile_image TEXT,
+  specialization TEXT,
+  experience_years INTEGER,
+  rating DECIMAL,
+  review_count INTEGER,
+  hourly_rate DECIMAL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  availability_hours JSONB,
+  is_available BOOLEAN,
+  distance_km DOUBLE PRECISION
+) AS $$
+  SELECT * FROM (
+    SELECT
+      m.id,
+      m.name,
+      m.profile_image,
+      m.specialization,
+      m.experience_years,
+      m.rating,
+      m.review_count,
+      m.hourly_rate,
+      m.latitude,
+      m.longitude,
+      m.availability_hours,
+      m.is_available,
+      6371 * 2 * ASIN(SQRT(
+        POWER(SIN(RADIANS(m.latitude - p_latitude) / 2), 2) +
+        COS(RADIANS(p_latitude)) * COS(RADIANS(m.latitude)) *
+        POWER(SIN(RADIANS(m.longitude - p_longitude) / 2), 2)
+      )) AS distance_km
+    FROM mechanics m
+    WHERE m.approval_status = 'approved'
+      AND m.latitude IS NOT NULL
+      AND m.longitude IS NOT NULL
+      -- Cheap bounding box on latitude before computing exact distances
+      AND m.latitude BETWEEN p_latitude - p_radius_km / 111.045 AND p_latitude + p_radius_km / 111.045
+  ) nearby
+  WHERE nearby.distance_km <= p_radius_km;
+$$ LANGUAGE sql STABLE;
+
+-- Public performance figures of a mechanic
+-- cancellation_rate is the share of the mechanic's settled bookings (completed or
+-- cancelled) that the mechanic cancelled; avg_response_minutes is how long the
+-- mechanic takes to answer a customer's first message after their last reply.
+CREATE OR REPLACE FUNCTION get_mechanic_stats(
+  p_mechanic_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_completed INTEGER;
+  v_cancelled INTEGER;
+  v_cancelled_by_mechanic INTEGER;
+  v_avg_response DOUBLE PRECISION;
+BEGIN
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'cancelled'),
+    COUNT(*) FILTER (WHERE status = 'cancelled' AND cancelled_by = 'mechanic')
+  INTO v_completed, v_cancelled, v_cancelled_by_mechanic
+  FROM bookings
+  WHERE mechanic_id = p_mechanic_id;
+  
+  WITH ordered AS (
+    SELECT
+      m.booking_id,
+      m.sender_type,
+      m.created_at,
+      LAG(m.sender_type) OVER (PARTITION BY m.booking_id ORDER BY m.created_at) AS previous_sender
+    FROM messages m
+    JOIN bookings b ON b.id = m.booking_id
+    WHERE b.mechanic_id = p_mechanic_id
+      AND m.sender_type IN ('customer', 'mechanic')
+  ), customer_turns AS (
+    SELECT booking_id, created_at FROM ordered
+    WHERE sender_type = 'customer' AND previous_sender IS DISTINCT FROM 'customer'
+  )
+  SELECT AVG(EXTRACT(EPOCH FROM (reply.created_at - t.created_at)) / 60)
+  INTO v_avg_response
+  FROM customer_turns t
+  CROSS JOIN LATERAL (
+    SELECT MIN(m.created_at) AS created_at FROM messages m
+    WHERE m.booking_id = t.booking_id
+      AND m.sender_type = 'mechanic'
+      AND m.created_at > t.created_at
+  ) reply
+  WHERE reply.created_at IS NOT NULL;
+  
+  RETURN jsonb_build_object(
+    'completed_jobs', v_completed,
+    'cancellation_rate', CASE
+      WHEN v_completed + v_cancelled = 0 THEN 0
+      ELSE ROUND(v_cancelled_by_mechanic::NUMERIC / (v_completed + v_cancelled), 4)
+    END,
+    'avg_response_minutes', ROUND(v_avg_response::NUMERIC, 1)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Keep mechanics.rating and review_count in line with their published reviews
+CREATE OR REPLACE FUNCTION refresh_mechanic_rating() RETURNS TRIGGER AS $$
+DECLARE
+  v_mechanic_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_mechanic_id := OLD.mechanic_id;
+  ELSE
+    v_mechanic_id := NEW.mechanic_id;
+  END IF;
+  
+  UPDATE mechanics
+  SET
+    rating = COALESCE((
+      SELECT ROUND(AVG(rating)::NUMERIC, 2) FROM reviews
+      WHERE mechanic_id = v_mechanic_id AND status = 'published'
+    ), 0),
+    review_count = (
+      SELECT COUNT(*) FROM reviews
+      WHERE mechanic_id = v_mechanic_id AND status = 'published'
+    ),
+    updated_at = NOW()
+  WHERE id = v_mechanic_id;
+  
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reviews_refresh_mechanic_rating ON reviews;
+CREATE TRIGGER reviews_refresh_mechanic_rating
+  AFTER INSERT OR DELETE OR UPDATE OF rating, status ON reviews
+  FOR EACH ROW EXECUTE FUNCTION refresh_mechanic_rating();
+
+-- Approve a pending quote and make its total the amount charged for the booking
+CREATE OR REPLACE FUNCTION approve_booking_quote(
+  p_quote_id UUID
+) RETURNS booking_quotes AS $$
+DECLARE
+  v_quote booking_quotes%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote FROM booking_quotes WHERE id = p_quote_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id;
+  END IF;
+  
+  IF v_quote.status <> 'pending' THEN
+    RAISE EXCEPTION 'Quote is not pending: %', v_quote.status;
+  END IF;
+  
+  SELECT * INTO v_booking FROM bookings WHERE id = v_quote.booking_id FOR UPDATE;
+  
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Quote is not pending: booking % is %', v_booking.id, v_booking.status;
+  END IF;
+  
+  UPDATE booking_quotes
+  SET status = 'approved', responded_at = NOW(), updated_at = NOW()
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+  
+  UPDATE bookings
+  SET total_amount = v_quote.total, updated_at = NOW()
+  WHERE id = v_quote.booking_id;
+  
+  RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Issue the invoice of a completed booking from its approved quote
+-- Bookings completed without a quote are invoiced as a single line for their total.
+-- Returns the existing invoice if one was already issued.
+CREATE OR REPLACE FUNCTION issue_booking_invoice(
+  p_booking_id UUID
+) RETURNS invoices AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_quote booking_quotes%ROWTYPE;
+  v_invoice invoices%ROWTYPE;
+  v_line_items JSONB;
+BEGIN
+  -- Lock the booking so concurrent requests cannot issue two invoices
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id;
+  END IF;
+  
+  SELECT * INTO v_invoice FROM invoices WHERE booking_id = p_booking_id;
+  
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+  
+  IF v_booking.status <> 'completed' THEN
+    RAISE EXCEPTION 'Booking % is not completed', p_booking_id;
+  END IF;
+  
+  SELECT * INTO v_quote FROM booking_quotes
+  WHERE booking_id = p_booking_id AND status = 'approved';
+  
+  IF FOUND THEN
+    SELECT jsonb_agg(jsonb_build_object(
+      'item_type', item_type,
+      'description', description,
+      'quantity', quantity,
+      'unit_price', unit_price,
+      'amount', amount
+    ) ORDER BY position)
+    INTO v_line_items
+    FROM booking_quote_items
+    WHERE quote_id = v_quote.id;
+  ELSE
+    IF v_booking.total_amount IS NULL OR v_booking.total_amount <= 0 THEN
+      RAISE EXCEPTION 'Booking % has no amount to invoice', p_booking_id;
+    END IF;
+    
+    v_line_items := jsonb_build_array(jsonb_build_object(
+      'item_type', 'fee',
+      'description', v_booking.service_type,
+      'quantity', 1,
+      'unit_price', v_booking.total_amount,
+      'amount', v_booking.total_amount
+    ));
+  END IF;
+  
+  INSERT INTO invoices (
+    id, booking_id, quote_id, customer_id, mechanic_id,
+    customer_name, mechanic_name, vehicle_description, service_type,
+    line_items, subtotal, tax_rate, tax_amount, total, issued_at
+  )
+  SELECT
+    gen_random_uuid(), v_booking.id, v_quote.id, v_booking.customer_id, v_booking.mechanic_id,
+    NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), ''),
+    m.name,
+    CONCAT_WS(' ', v.year, v.make, v.model, '(' || v.license_plate || ')'),
+    v_booking.service_type,
+    v_line_items,
+    COALESCE(v_quote.subtotal, v_booking.total_amount),
+    COALESCE(v_quote.tax_rate, 0),
+    COALESCE(v_quote.tax_amount, 0),
+    COALESCE(v_quote.total, v_booking.total_amount),
+    NOW()
+  FROM profiles p, mechanics m, vehicles v
+  WHERE p.id = v_booking.customer_id
+    AND m.id = v_booking.mechanic_id
+    AND v.id = v_booking.vehicle_id
+  RETURNING * INTO v_invoice;
+  
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+REVOKE EXECUTE ON FUNCTION approve_booking_quote(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_booking_invoice(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Invoices are immutable once issued
+CREATE OR REPLACE FUNCTION prevent_invoice_changes() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Invoices cannot be modified or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS invoices_immutable ON invoices;
+CREATE TRIGGER invoices_immutable
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION prevent_invoice_changes();
+
+-- Whether the current user belongs to an organization, optionally in one of the given roles
+-- SECURITY DEFINER so policies on organization_members can use it without recursing
+CREATE OR REPLACE FUNCTION is_organization_member(
+  p_organization_id UUID,
+  p_roles TEXT[] DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_id = p_organization_id
+    AND user_id = auth.uid()
+    AND (p_roles IS NULL OR role = ANY(p_roles))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create idempotency_keys table (stored responses of retried mutations)
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  response_status INTEGER, -- NULL while the first request is still being processed
+  response_body JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, key)
+);
+
 -- Set up RLS policies
 
 -- Profiles table policies
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view their own profile" ON profiles;
 CREATE POLICY "Users can view their own profile"
   ON profiles FOR SELECT
   USING (auth.uid() = id);
 
+DROP POLICY IF EXISTS "Users can update their own profile" ON profiles;
 CREATE POLICY "Users can update their own profile"
   ON profiles FOR UPDATE
   USING (auth.uid() = id);
 
+DROP POLICY IF EXISTS "Service role can insert profiles" ON profiles;
 CREATE POLICY "Service role can insert profiles"
   ON profiles FOR INSERT
   WITH CHECK (true);
 
+DROP POLICY IF EXISTS "Service role can update any profile" ON profiles;
 CREATE POLICY "Service role can update any profile"
   ON profiles FOR UPDATE
   USING (auth.jwt() ? 'service_role');
 
+-- Organizations table policies
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organizations" ON organizations;
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  USING (is_organization_member(id));
+
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view the members of their organizations" ON organization_members;
+CREATE POLICY "Members can view the members of their organizations"
+  ON organization_members FOR SELECT
+  USING (is_organization_member(organization_id));
+
 -- Vehicles table policies
 ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view their own vehicles" ON vehicles;
 CREATE POLICY "Users can view their own vehicles"
   ON vehicles FOR SELECT
-  USING (auth.uid() = user_id);
+  USING (auth.uid() = user_id AND organization_id IS NULL);
+
+DROP POLICY IF EXISTS "Organization members can view organization vehicles" ON vehicles;
+CREATE POLICY "Organization members can view organization vehicles"
+  ON vehicles FOR SELECT
+  USING (organization_id IS NOT NULL AND is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can view vehicles shared with them" ON vehicles;
+CREATE POLICY "Users can view vehicles shared with them"
+  ON vehicles FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM vehicle_shares
+    WHERE vehicle_shares.vehicle_id = vehicles.id
+    AND vehicle_shares.user_id = auth.uid()
+    AND vehicle_shares.status = 'accepted'
+  ));
 
+DROP POLICY IF EXISTS "Users can insert their own vehicles" ON vehicles;
 CREATE POLICY "Users can insert their own vehicles"
   ON vehicles FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can update their own vehicles" ON vehicles;
 CREATE POLICY "Users can update their own vehicles"
   ON vehicles FOR UPDATE
-  USING (auth.uid() = user_id);
+  USING (auth.uid() = user_id AND organization_id IS NULL);
 
+DROP POLICY IF EXISTS "Users can delete their own vehicles" ON vehicles;
 CREATE POLICY "Users can delete their own vehicles"
   ON vehicles FOR DELETE
+  USING (auth.uid() = user_id AND organization_id IS NULL);
+
+-- Vehicle service entries table policies
+ALTER TABLE vehicle_service_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view service entries of their own vehicles" ON vehicle_service_entries;
+CREATE POLICY "Users can view service entries of their own vehicles"
+  ON vehicle_service_entries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM vehicles
+    WHERE vehicles.id = vehicle_service_entries.vehicle_id
+    AND vehicles.user_id = auth.uid()
+    AND vehicles.organization_id IS NULL
+  ));
+
+DROP POLICY IF EXISTS "Users can add service entries to their own vehicles" ON vehicle_service_entries;
+CREATE POLICY "Users can add service entries to their own vehicles"
+  ON vehicle_service_entries FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM vehicles
+    WHERE vehicles.id = vehicle_service_entries.vehicle_id
+    AND vehicles.user_id = auth.uid()
+    AND vehicles.organization_id IS NULL
+  ));
+
+DROP POLICY IF EXISTS "Users can delete service entries of their own vehicles" ON vehicle_service_entries;
+CREATE POLICY "Users can delete service entries of their own vehicles"
+  ON vehicle_service_entries FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM vehicles
+    WHERE vehicles.id = vehicle_service_entries.vehicle_id
+    AND vehicles.user_id = auth.uid()
+    AND vehicles.organization_id IS NULL
+  ));
+
+-- Vehicle shares table policies
+ALTER TABLE vehicle_shares ENABLE ROW LEVEL SECURITY;
+
+-- Only owners invite, so the inviter is the owner; checking vehicles here would
+-- recurse into the vehicles policy that checks vehicle_shares
+DROP POLICY IF EXISTS "Owners can view the shares they created" ON vehicle_shares;
+CREATE POLICY "Owners can view the shares they created"
+  ON vehicle_shares FOR SELECT
+  USING (auth.uid() = invited_by);
+
+DROP POLICY IF EXISTS "Users can view the shares they were given" ON vehicle_shares;
+CREATE POLICY "Users can view the shares they were given"
+  ON vehicle_shares FOR SELECT
   USING (auth.uid() = user_id);
 
+-- Vehicle alerts are only written and read by the backend
+ALTER TABLE vehicle_alerts ENABLE ROW LEVEL SECURITY;
+
 -- Bookings table policies
 ALTER TABLE bookings ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view their own bookings" ON bookings;
 CREATE POLICY "Users can view their own bookings"
   ON bookings FOR SELECT
   USING (auth.uid() = customer_id);
 
+DROP POLICY IF EXISTS "Mechanics can view their assigned bookings" ON bookings;
 CREATE POLICY "Mechanics can view their assigned bookings"
   ON bookings FOR SELECT
   USING (EXISTS (
@@ -226,13 +1494,30 @@ CREATE POLICY "Mechanics can view their assigned bookings"
     AND mechanics.id = auth.uid()
   ));
 
+DROP POLICY IF EXISTS "Users can insert their own bookings" ON bookings;
 CREATE POLICY "Users can insert their own bookings"
   ON bookings FOR INSERT
   WITH CHECK (auth.uid() = customer_id);
 
+DROP POLICY IF EXISTS "Organization admins can view organization bookings" ON bookings;
+CREATE POLICY "Organization admins can view organization bookings"
+  ON bookings FOR SELECT
+  USING (organization_id IS NOT NULL AND is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+DROP POLICY IF EXISTS "Vehicle owners can view bookings of their vehicles" ON bookings;
+CREATE POLICY "Vehicle owners can view bookings of their vehicles"
+  ON bookings FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM vehicles
+    WHERE vehicles.id = bookings.vehicle_id
+    AND vehicles.user_id = auth.uid()
+    AND vehicles.organization_id IS NULL
+  ));
+
 -- Messages table policies
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view messages in their bookings" ON messages;
 CREATE POLICY "Users can view messages in their bookings"
   ON messages FOR SELECT
   USING (EXISTS (
@@ -241,6 +1526,7 @@ CREATE POLICY "Users can view messages in their bookings"
     AND (bookings.customer_id = auth.uid() OR bookings.mechanic_id = auth.uid())
   ));
 
+DROP POLICY IF EXISTS "Users can insert messages in their bookings" ON messages;
 CREATE POLICY "Users can insert messages in their bookings"
   ON messages FOR INSERT
   WITH CHECK (EXISTS (
@@ -252,24 +1538,167 @@ CREATE POLICY "Users can insert messages in their bookings"
 -- Wallets table policies
 ALTER TABLE wallets ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view their own wallet" ON wallets;
 CREATE POLICY "Users can view their own wallet"
   ON wallets FOR SELECT
   USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Organization admins can view their organization's wallet" ON wallets;
+CREATE POLICY "Organization admins can view their organization's wallet"
+  ON wallets FOR SELECT
+  USING (is_organization_member(user_id, ARRAY['owner', 'admin']));
+
 -- Wallet transactions table policies
 ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view their own transactions" ON wallet_transactions;
 CREATE POLICY "Users can view their own transactions"
   ON wallet_transactions FOR SELECT
   USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Organization admins can view their organization's transactions" ON wallet_transactions;
+CREATE POLICY "Organization admins can view their organization's transactions"
+  ON wallet_transactions FOR SELECT
+  USING (is_organization_member(user_id, ARRAY['owner', 'admin']));
+
+-- Cancellation policies are public information
+ALTER TABLE cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view cancellation policies" ON cancellation_policies;
+CREATE POLICY "Anyone can view cancellation policies"
+  ON cancellation_policies FOR SELECT
+  USING (true);
+
+-- Service catalog is public information
+ALTER TABLE service_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view service categories" ON service_categories;
+CREATE POLICY "Anyone can view service categories"
+  ON service_categories FOR SELECT
+  USING (true);
+
+ALTER TABLE services ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view services" ON services;
+CREATE POLICY "Anyone can view services"
+  ON services FOR SELECT
+  USING (true);
+
+ALTER TABLE mechanic_services ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view mechanic services" ON mechanic_services;
+CREATE POLICY "Anyone can view mechanic services"
+  ON mechanic_services FOR SELECT
+  USING (true);
+
+ALTER TABLE maintenance_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view maintenance schedules" ON maintenance_schedules;
+CREATE POLICY "Anyone can view maintenance schedules"
+  ON maintenance_schedules FOR SELECT
+  USING (true);
+
+-- Wallet holds and top-ups table policies
+ALTER TABLE wallet_holds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own wallet holds" ON wallet_holds;
+CREATE POLICY "Users can view their own wallet holds"
+  ON wallet_holds FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER TABLE wallet_topups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own top-ups" ON wallet_topups;
+CREATE POLICY "Users can view their own top-ups"
+  ON wallet_topups FOR SELECT
+  USING (auth.uid() = user_id OR auth.uid() = requested_by);
+
+ALTER TABLE booking_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view refunds of their bookings" ON booking_refunds;
+CREATE POLICY "Users can view refunds of their bookings"
+  ON booking_refunds FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM bookings 
+    WHERE bookings.id = booking_refunds.booking_id 
+    AND (bookings.customer_id = auth.uid() OR bookings.mechanic_id = auth.uid())
+  ));
+
+-- Idempotency keys are only accessed by the backend
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
 -- Notifications table policies
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
 CREATE POLICY "Users can view their own notifications"
   ON notifications FOR SELECT
   USING (auth.uid() = user_id);
 
+DROP POLICY IF EXISTS "Users can update their own notifications" ON notifications;
 CREATE POLICY "Users can update their own notifications"
   ON notifications FOR UPDATE
   USING (auth.uid() = user_id);
+
+-- Reviews table policies
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published reviews" ON reviews;
+CREATE POLICY "Anyone can view published reviews"
+  ON reviews FOR SELECT
+  USING (status = 'published');
+
+-- Reschedule proposals table policies
+ALTER TABLE booking_reschedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view reschedules of their bookings" ON booking_reschedules;
+CREATE POLICY "Users can view reschedules of their bookings"
+  ON booking_reschedules FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM bookings 
+    WHERE bookings.id = booking_reschedules.booking_id 
+    AND (bookings.customer_id = auth.uid() OR bookings.mechanic_id = auth.uid())
+  ));
+
+-- Booking events table policies
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view events of their bookings" ON booking_events;
+CREATE POLICY "Users can view events of their bookings"
+  ON booking_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM bookings 
+    WHERE bookings.id = booking_events.booking_id 
+    AND (bookings.customer_id = auth.uid() OR bookings.mechanic_id = auth.uid())
+  ));
+
+-- Quotes and invoices table policies
+ALTER TABLE booking_quotes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view quotes of their bookings" ON booking_quotes;
+CREATE POLICY "Users can view quotes of their bookings"
+  ON booking_quotes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM bookings 
+    WHERE bookings.id = booking_quotes.booking_id 
+    AND (bookings.customer_id = auth.uid() OR bookings.mechanic_id = auth.uid())
+  ));
+
+ALTER TABLE booking_quote_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view quote items of their bookings" ON booking_quote_items;
+CREATE POLICY "Users can view quote items of their bookings"
+  ON booking_quote_items FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM booking_quotes
+    JOIN bookings ON bookings.id = booking_quotes.booking_id
+    WHERE booking_quotes.id = booking_quote_items.quote_id 
+    AND (bookings.customer_id = auth.uid() OR bookings.mechanic_id = auth.uid())
+  ));
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own invoices" ON invoices;
+CREATE POLICY "Users can view their own invoices"
+  ON invoices FOR SELECT
+  USING (auth.uid() = customer_id OR auth.uid() = mechanic_id);
@@ -75,6 +75,26 @@ export async function isAdmin(userId: string): Promise<boolean> {
   return data.role === 'admin';
 }
 
+/**
+ * Helper to check if a user has an approved mechanic record
+ * @param userId - The user ID to check
+ * @returns Boolean indicating if user is a mechanic
+ */
+export async function isMechanic(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mechanics')
+    .select('id')
+    .eq('id', userId)
+    .eq('approval_status', 'approved')
+    .maybeSingle();
+  
+  if (error || !data) {
+    return false;
+  }
+  
+  return true;
+}
+
 // Extend the NextApiRequest type to include userId
 declare module 'next' {
   interface NextApiRequest {